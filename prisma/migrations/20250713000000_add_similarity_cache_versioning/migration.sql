@@ -0,0 +1,8 @@
+-- Existing cache rows have no embedding version and cannot be validated
+DELETE FROM "SimilarityCache";
+
+-- AlterTable
+ALTER TABLE "PlaylistAnalysis" ADD COLUMN "snapshotId" TEXT;
+
+-- AlterTable
+ALTER TABLE "SimilarityCache" ADD COLUMN "embeddingVersion" INTEGER NOT NULL;
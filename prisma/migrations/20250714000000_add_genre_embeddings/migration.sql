@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "GenreEmbedding" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "genre" TEXT NOT NULL,
+    "vector" DOUBLE PRECISION[],
+    "songCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GenreEmbedding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GenreEmbedding_version_idx" ON "GenreEmbedding"("version");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GenreEmbedding_version_genre_key" ON "GenreEmbedding"("version", "genre");
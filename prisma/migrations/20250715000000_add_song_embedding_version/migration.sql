@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Song" ADD COLUMN "embeddingVersion" INTEGER;
+
+-- AlterTable
+ALTER TABLE "PlaylistAnalysis" ADD COLUMN "embeddingVersion" INTEGER;
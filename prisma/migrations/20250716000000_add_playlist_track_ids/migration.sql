@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PlaylistAnalysis" ADD COLUMN "trackIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "SwipeDirection" AS ENUM ('left', 'right');
+
+-- CreateTable
+CREATE TABLE "Swipe" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "anonymousId" TEXT,
+    "sourcePlaylistId" TEXT NOT NULL,
+    "trackId" TEXT NOT NULL,
+    "direction" "SwipeDirection" NOT NULL,
+    "dwellMs" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "track" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Swipe_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Swipe_userId_sourcePlaylistId_idx" ON "Swipe"("userId", "sourcePlaylistId");
+
+-- CreateIndex
+CREATE INDEX "Swipe_anonymousId_sourcePlaylistId_idx" ON "Swipe"("anonymousId", "sourcePlaylistId");
+
+-- AddForeignKey
+ALTER TABLE "Swipe" ADD CONSTRAINT "Swipe_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "SwipeDirection" ADD VALUE 'up';
+ALTER TYPE "SwipeDirection" ADD VALUE 'down';
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "PlaylistCreation" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "clientKey" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "trackIds" TEXT[],
+    "spotifyPlaylistId" TEXT,
+    "playlistUrl" TEXT,
+    "tracksAdded" INTEGER NOT NULL DEFAULT 0,
+    "coverUploaded" BOOLEAN NOT NULL DEFAULT false,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PlaylistCreation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlaylistCreation_userId_clientKey_key" ON "PlaylistCreation"("userId", "clientKey");
+
+-- AddForeignKey
+ALTER TABLE "PlaylistCreation" ADD CONSTRAINT "PlaylistCreation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
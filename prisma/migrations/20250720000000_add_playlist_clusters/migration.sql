@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "PlaylistCluster" (
+    "id" TEXT NOT NULL,
+    "playlistAnalysisId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "size" INTEGER NOT NULL,
+    "centroid" vector(128),
+    "dominantGenres" TEXT[],
+    "avgEnergy" DOUBLE PRECISION NOT NULL,
+    "avgValence" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PlaylistCluster_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PlaylistCluster_playlistAnalysisId_index_key" ON "PlaylistCluster"("playlistAnalysisId", "index");
+
+-- AddForeignKey
+ALTER TABLE "PlaylistCluster" ADD CONSTRAINT "PlaylistCluster_playlistAnalysisId_fkey" FOREIGN KEY ("playlistAnalysisId") REFERENCES "PlaylistAnalysis"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "SimilarityCache" ADD COLUMN "rank" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "SimilarityCache_sourcePlaylistId_rank_idx" ON "SimilarityCache"("sourcePlaylistId", "rank");
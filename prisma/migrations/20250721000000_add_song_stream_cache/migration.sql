@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Song" ADD COLUMN "isrc" TEXT,
+ADD COLUMN "streamUrl" TEXT,
+ADD COLUMN "deezerId" TEXT,
+ADD COLUMN "streamResolvedAt" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- Existing cache rows don't record the catalog they were ranked against and cannot be validated
+DELETE FROM "SimilarityCache";
+
+-- AlterTable
+ALTER TABLE "SimilarityCache" ADD COLUMN "catalogSize" INTEGER NOT NULL;
@@ -0,0 +1,11 @@
+-- Existing cache rows don't record the genre embedding version and cannot be validated
+DELETE FROM "SimilarityCache";
+
+-- AlterTable
+ALTER TABLE "Song" ADD COLUMN "genreEmbeddingVersion" INTEGER;
+
+-- AlterTable
+ALTER TABLE "PlaylistAnalysis" ADD COLUMN "genreEmbeddingVersion" INTEGER;
+
+-- AlterTable
+ALTER TABLE "SimilarityCache" ADD COLUMN "genreEmbeddingVersion" INTEGER;
@@ -0,0 +1,19 @@
+-- Keep only the latest swipe per listener, source and track before enforcing uniqueness
+DELETE FROM "Swipe" a
+USING "Swipe" b
+WHERE a."sourcePlaylistId" = b."sourcePlaylistId"
+  AND a."trackId" = b."trackId"
+  AND (a."userId" = b."userId" OR a."anonymousId" = b."anonymousId")
+  AND (a."createdAt", a."id") < (b."createdAt", b."id");
+
+-- DropIndex
+DROP INDEX "Swipe_userId_sourcePlaylistId_idx";
+
+-- DropIndex
+DROP INDEX "Swipe_anonymousId_sourcePlaylistId_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Swipe_userId_sourcePlaylistId_trackId_key" ON "Swipe"("userId", "sourcePlaylistId", "trackId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Swipe_anonymousId_sourcePlaylistId_trackId_key" ON "Swipe"("anonymousId", "sourcePlaylistId", "trackId");
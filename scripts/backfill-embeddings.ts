@@ -0,0 +1,20 @@
+/**
+ * Recompute stored song and playlist vectors with the current EmbeddingService
+ * Usage: bun run embeddings:backfill [--all] [--after=<songId>]
+ *
+ * By default only rows embedded with an older EMBEDDING_VERSION or genre embedding
+ * version are updated, so an interrupted run resumes by running it again. Use --after
+ * to resume an interrupted --all run.
+ */
+
+import { db } from "@/server/db";
+import { embeddingBackfillService } from "@/server/services/embeddingBackfill";
+
+const args = process.argv.slice(2);
+const after = args.find(arg => arg.startsWith('--after='))?.slice('--after='.length);
+
+try {
+  await embeddingBackfillService.run({ all: args.includes('--all'), after });
+} finally {
+  await db.$disconnect();
+}
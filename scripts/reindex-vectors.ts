@@ -0,0 +1,40 @@
+/**
+ * Rebuild the ivfflat vector indexes with list counts sized to the rows that now exist
+ * Usage: bun run vectors:reindex
+ *
+ * ivfflat picks its list centroids from the rows present when the index is built, and the
+ * migrations build them on empty tables, so run this once the catalog has been ingested
+ * and again after it has grown a lot or after a full `embeddings:backfill`.
+ */
+
+import { db } from "@/server/db";
+
+const VECTOR_INDEXES = [
+  { name: 'song_combined_vector_idx', table: 'Song', column: 'combinedVector' },
+  { name: 'song_audio_vector_idx', table: 'Song', column: 'audioFeatureVector' },
+  { name: 'playlist_vector_idx', table: 'PlaylistAnalysis', column: 'playlistVector' },
+] as const;
+
+// pgvector's guidance: rows / 1000 lists up to 1M rows, sqrt(rows) beyond
+function listsFor(rows: number): number {
+  return Math.max(1, Math.round(rows <= 1_000_000 ? rows / 1000 : Math.sqrt(rows)));
+}
+
+try {
+  for (const { name, table, column } of VECTOR_INDEXES) {
+    const [{ count } = { count: 0n }] = await db.$queryRawUnsafe<Array<{ count: bigint }>>(
+      `SELECT COUNT(*) AS "count" FROM "${table}" WHERE "${column}" IS NOT NULL`
+    );
+    const lists = listsFor(Number(count));
+
+    await db.$transaction([
+      db.$executeRawUnsafe(`DROP INDEX IF EXISTS ${name}`),
+      db.$executeRawUnsafe(
+        `CREATE INDEX ${name} ON "${table}" USING ivfflat ("${column}" vector_cosine_ops) WITH (lists = ${lists})`
+      ),
+    ]);
+    console.log(`${name}: ${count} rows, ${lists} lists`);
+  }
+} finally {
+  await db.$disconnect();
+}
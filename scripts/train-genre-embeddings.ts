@@ -0,0 +1,16 @@
+/**
+ * Train a new genre embedding version from the ingested Song catalog
+ * Usage: bun run embeddings:train-genres
+ *
+ * Stored vectors keep the previous genre space until `bun run embeddings:backfill`
+ */
+
+import { db } from "@/server/db";
+import { genreEmbeddingTrainer } from "@/server/services/genreEmbeddingTrainer";
+
+try {
+  const result = await genreEmbeddingTrainer.train();
+  console.log(`Genre embeddings v${result.version}: ${result.genreCount} genres from ${result.songCount} songs`);
+} finally {
+  await db.$disconnect();
+}
@@ -0,0 +1,76 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { env } from "@/env";
+import {
+  ANONYMOUS_COOKIE,
+  PKCE_COOKIE,
+  SESSION_COOKIE,
+  createSession,
+  getAnonymousId,
+  sanitizeReturnTo,
+  signCookieValue,
+  verifyCookieValue,
+  type PkceState,
+} from "@/server/auth";
+import { spotifyClient } from "@/server/services/spotifyClient";
+import { swipeHistoryService } from "@/server/services/swipeHistory";
+
+/**
+ * Spotify redirects here after consent: check state, exchange the code with the
+ * PKCE verifier, open a session for the user and move their signed-out swipes over
+ */
+export async function GET(req: NextRequest) {
+  const pkceCookie = verifyCookieValue(req.cookies.get(PKCE_COOKIE)?.value);
+  const pkce = pkceCookie ? (JSON.parse(pkceCookie) as PkceState) : null;
+  const code = req.nextUrl.searchParams.get("code");
+  const state = req.nextUrl.searchParams.get("state");
+  // Re-checked here too: the cookie may predate the login route's check
+  const returnTo = new URL(sanitizeReturnTo(pkce?.returnTo ?? null, req.url), req.url);
+
+  const fail = (reason: string) => {
+    returnTo.searchParams.set("authError", reason);
+    const response = NextResponse.redirect(returnTo);
+    response.cookies.delete(PKCE_COOKIE);
+    return response;
+  };
+
+  const spotifyError = req.nextUrl.searchParams.get("error");
+  if (spotifyError) {
+    return fail(spotifyError);
+  }
+
+  if (!pkce || !code || state !== pkce.state) {
+    return fail("invalid_state");
+  }
+
+  try {
+    const tokens = await spotifyClient.exchangeAuthorizationCode(
+      code,
+      pkce.codeVerifier,
+      env.SPOTIFY_REDIRECT_URI,
+    );
+    const session = await createSession(tokens);
+
+    // Only the anonymous ID this browser was issued can be claimed
+    const anonymousId = getAnonymousId(req.headers);
+    if (anonymousId) {
+      await swipeHistoryService.claimAnonymousSwipes(anonymousId, session.userId);
+    }
+
+    const response = NextResponse.redirect(returnTo);
+    response.cookies.delete(PKCE_COOKIE);
+    response.cookies.delete(ANONYMOUS_COOKIE);
+    response.cookies.set(SESSION_COOKIE, signCookieValue(session.sessionToken), {
+      httpOnly: true,
+      secure: env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      expires: session.expires,
+    });
+
+    return response;
+  } catch (error) {
+    console.error("Spotify login failed:", error);
+    return fail("login_failed");
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { env } from "@/env";
+import {
+  PKCE_COOKIE,
+  PKCE_MAX_AGE_SECONDS,
+  SPOTIFY_SCOPES,
+  createPkceChallenge,
+  sanitizeReturnTo,
+  signCookieValue,
+} from "@/server/auth";
+import { spotifyClient } from "@/server/services/spotifyClient";
+
+/**
+ * Start Spotify login: remember the PKCE verifier and state in a short-lived cookie,
+ * then send the browser to Spotify's consent page
+ */
+export function GET(req: NextRequest) {
+  const returnTo = sanitizeReturnTo(req.nextUrl.searchParams.get("returnTo"), req.url);
+  const { pkce, codeChallenge } = createPkceChallenge(returnTo);
+
+  const response = NextResponse.redirect(
+    spotifyClient.getAuthorizeUrl({
+      redirectUri: env.SPOTIFY_REDIRECT_URI,
+      scopes: SPOTIFY_SCOPES,
+      state: pkce.state,
+      codeChallenge,
+    }),
+  );
+
+  response.cookies.set(PKCE_COOKIE, signCookieValue(JSON.stringify(pkce)), {
+    httpOnly: true,
+    secure: env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: PKCE_MAX_AGE_SECONDS,
+  });
+
+  return response;
+}
@@ -0,0 +1,16 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { SESSION_COOKIE, deleteSession, sanitizeReturnTo } from "@/server/auth";
+
+/**
+ * End the session and clear its cookie
+ */
+export async function POST(req: NextRequest) {
+  await deleteSession(req.headers);
+
+  const returnTo = sanitizeReturnTo(req.nextUrl.searchParams.get("returnTo"), req.url);
+  const response = NextResponse.redirect(new URL(returnTo, req.url), 303);
+  response.cookies.delete(SESSION_COOKIE);
+
+  return response;
+}
@@ -0,0 +1,2130 @@
+"use client";
+
+import { useState, useEffect, useImperativeHandle, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { animate, motion, AnimatePresence, useDragControls, useMotionValue, useScroll, useTransform, type PanInfo } from "framer-motion";
+import { getDeckPath, getDeckSourceId, type DeckSeed } from "@/lib/spotifyUrl";
+import { api } from "@/trpc/react";
+
+interface Track {
+  id: string;
+  name: string;
+  artist: string;
+  album: string;
+  image: string;
+  genres: string[];
+  year: number;
+  popularity: number;
+  external_urls: {
+    spotify: string;
+  };
+  similarity?: number;
+  duration_ms?: number;
+  smart_start_time?: number;
+  stream_url?: string;
+  deezer_id?: string;
+  apple_music_id?: string;
+}
+
+// How often the unseen part of the deck is re-ranked from likes and passes
+const RERANK_EVERY_SWIPES = 5;
+
+// Swipes that can be walked back with undo
+const MAX_UNDO_STEPS = 20;
+
+// Drag distance (px) or release speed (px/s) that commits a swipe
+const SWIPE_OFFSET_THRESHOLD = 120;
+const SWIPE_VELOCITY_THRESHOLD = 500;
+
+// How far the bracket keys seek
+const SEEK_STEP_SECONDS = 5;
+
+const ARROW_DIRECTIONS: Record<"ArrowLeft" | "ArrowRight" | "ArrowUp" | "ArrowDown", SwipeDirection> = {
+  ArrowLeft: "left",
+  ArrowRight: "right",
+  ArrowUp: "up",
+  ArrowDown: "down",
+};
+
+const PLAYLIST_VISIBILITY_OPTIONS = [
+  { value: "collaborative", label: "🤝 Collaborative" },
+  { value: "private", label: "🔒 Private" },
+  { value: "public", label: "🌍 Public" },
+] as const;
+
+const PLAYLIST_ORDER_OPTIONS = [
+  { value: "liked", label: "In the order I liked them" },
+  { value: "energyArc", label: "Energy arc (build up, wind down)" },
+  { value: "tempoAscending", label: "Tempo, slowest first" },
+  { value: "smooth", label: "Smooth key & tempo transitions" },
+] as const;
+
+const KEYBOARD_SHORTCUTS = [
+  { keys: "←", action: "Pass" },
+  { keys: "→", action: "Like" },
+  { keys: "↑", action: "Super like" },
+  { keys: "↓", action: "Maybe" },
+  { keys: "Space", action: "Play / pause" },
+  { keys: "[ ]", action: `Seek ∓${SEEK_STEP_SECONDS}s` },
+  { keys: "Z", action: "Undo" },
+];
+
+// Fetch the next page of recommendations when this few unseen cards are left
+const PREFETCH_REMAINING_CARDS = 5;
+
+// How the loading screen refers to each kind of seed
+const SEED_LABELS: Record<DeckSeed["type"], string> = {
+  playlist: "Playlist",
+  album: "Album",
+  artist: "Artist",
+  track: "Track",
+  blend: "Blend",
+};
+
+interface SwipeCardHandle {
+  swipe: (direction: SwipeDirection) => void;
+}
+
+interface UndoEntry {
+  track: Track;
+  direction: SwipeDirection;
+  index: number; // Deck position the card was swiped from
+}
+
+interface RecommendationResponse {
+  tracks: Track[];
+  originalPlaylist?: {
+    id: string;
+    name: string;
+    description: string | null;
+    total_tracks: number;
+  };
+  seedTrack?: Track;
+  playlists?: Array<{ id: string; name: string }>; // The playlists of a blended deck
+  seedCollection?: {
+    type: "album" | "artist";
+    id: string;
+    name: string;
+    trackIds: string[];
+  };
+  clusters?: Array<{
+    genres: string[];
+    share: number;
+    avgEnergy: number;
+    avgValence: number;
+  }>;
+}
+
+// left = pass, right = like, up = super like, down = maybe
+type SwipeDirection = "left" | "right" | "up" | "down";
+
+interface SwipeStats {
+  likes: number; // Includes super likes
+  passes: number;
+  maybes: number;
+  total: number;
+}
+
+// playlists.sequence's cap; longer playlists are saved without a preview of their order
+const MAX_SEQUENCE_PREVIEW_TRACKS = 500;
+
+// The stat each swipe direction counts toward
+const SWIPE_STAT: Record<SwipeDirection, "likes" | "passes" | "maybes"> = {
+  left: "passes",
+  right: "likes",
+  up: "likes",
+  down: "maybes",
+};
+
+// Liquid Glass Background Component for Discover Page
+function DiscoverLiquidBackground() {
+  const [mounted, setMounted] = useState(false);
+  const { scrollYProgress } = useScroll();
+  
+  const y1 = useTransform(scrollYProgress, [0, 1], [0, -100]);
+  const y2 = useTransform(scrollYProgress, [0, 1], [0, -200]);
+  const rotate = useTransform(scrollYProgress, [0, 1], [0, 180]);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  if (!mounted) return null;
+
+  return (
+    <div className="absolute inset-0 overflow-hidden pointer-events-none">
+      {/* Main liquid glass orbs */}
+      <motion.div
+        style={{ y: y1, rotate }}
+        className="absolute -top-32 -right-32 w-64 h-64 rounded-full"
+      >
+        <div className="w-full h-full bg-gradient-to-br from-green-400/20 via-emerald-500/15 to-teal-600/20 rounded-full blur-3xl animate-pulse" />
+        <div className="absolute inset-4 bg-gradient-to-tr from-white/5 to-transparent rounded-full backdrop-blur-xl border border-white/10" />
+      </motion.div>
+      
+      <motion.div
+        style={{ y: y2 }}
+        className="absolute -bottom-32 -left-32 w-72 h-72 rounded-full"
+      >
+        <div className="w-full h-full bg-gradient-to-tl from-purple-400/20 via-pink-500/15 to-rose-600/20 rounded-full blur-3xl animate-pulse" style={{ animationDelay: '1.5s' }} />
+        <div className="absolute inset-4 bg-gradient-to-bl from-white/5 to-transparent rounded-full backdrop-blur-xl border border-white/10" />
+      </motion.div>
+
+      {/* Floating particles */}
+      {Array.from({ length: 15 }, (_, i) => (
+        <motion.div
+          key={i}
+          className="absolute w-1 h-1 bg-green-400/30 rounded-full backdrop-blur-sm"
+          animate={{
+            y: [0, -30, 0],
+            x: [0, Math.random() * 20 - 10, 0],
+            scale: [0, 1, 0],
+            opacity: [0, 0.6, 0]
+          }}
+          transition={{
+            duration: 3 + Math.random() * 2,
+            repeat: Infinity,
+            delay: Math.random() * 4,
+            ease: "easeInOut"
+          }}
+          style={{
+            left: `${Math.random() * 100}%`,
+            top: `${Math.random() * 100}%`
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+// Enhanced Loading Animation Component
+function LoadingAnimation() {
+  return (
+    <div className="relative">
+      {/* Main loading spinner with glass effect */}
+      <motion.div
+        animate={{ rotate: 360 }}
+        transition={{ duration: 2, repeat: Infinity, ease: "linear" }}
+        className="relative w-24 h-24 mx-auto mb-8"
+      >
+        <div className="absolute inset-0 rounded-full bg-gradient-to-r from-green-400/30 to-emerald-500/30 blur-xl" />
+        <div className="absolute inset-2 rounded-full bg-white/5 backdrop-blur-xl border border-white/20" />
+        <div className="absolute inset-4 rounded-full bg-gradient-to-br from-green-400 to-emerald-500 opacity-20" />
+        
+        {/* Spinning border */}
+        <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100">
+          <circle
+            cx="50"
+            cy="50"
+            r="45"
+            fill="none"
+            stroke="url(#gradient)"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeDasharray="70 30"
+            className="opacity-80"
+          />
+          <defs>
+            <linearGradient id="gradient" x1="0%" y1="0%" x2="100%" y2="100%">
+              <stop offset="0%" stopColor="#4ade80" />
+              <stop offset="50%" stopColor="#10b981" />
+              <stop offset="100%" stopColor="#059669" />
+            </linearGradient>
+          </defs>
+        </svg>
+      </motion.div>
+
+      {/* Pulsing dots */}
+      <div className="flex justify-center space-x-2 mb-6">
+        {Array.from({ length: 3 }, (_, i) => (
+          <motion.div
+            key={i}
+            className="w-3 h-3 bg-green-400 rounded-full"
+            animate={{
+              scale: [1, 1.5, 1],
+              opacity: [0.5, 1, 0.5]
+            }}
+            transition={{
+              duration: 1.5,
+              repeat: Infinity,
+              delay: i * 0.2
+            }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// A deck is built from a playlist, an album, an artist, a single track ("more like this")
+// or a blend of several playlists
+export function DiscoverDeck({ seed }: { seed: DeckSeed }) {
+  const router = useRouter();
+  const seedId = seed.type === "blend" ? null : seed.id;
+  const playlistId = seed.type === "playlist" ? seed.id : null;
+  const blendPlaylistIds = seed.type === "blend" ? seed.playlistIds : null;
+  const sourceId = getDeckSourceId(seed);
+  const deckPath = getDeckPath(seed);
+  
+  const [currentTrackIndex, setCurrentTrackIndex] = useState(0);
+  const [swipeStats, setSwipeStats] = useState<SwipeStats>({ likes: 0, passes: 0, maybes: 0, total: 0 });
+  const [likedTracks, setLikedTracks] = useState<Track[]>([]); // Includes super likes
+  const [superLikedIds, setSuperLikedIds] = useState<string[]>([]);
+  const [maybeTracks, setMaybeTracks] = useState<Track[]>([]); // Reviewed on the completion screen
+  const [passedTrackIds, setPassedTrackIds] = useState<string[]>([]);
+  const [deck, setDeck] = useState<Track[] | null>(null); // Re-ranked recommendations, once reordered
+  const [isFinished, setIsFinished] = useState(false); // Listener chose to stop swiping
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [isGeneratingPlaylist, setIsGeneratingPlaylist] = useState(false);
+  const [generatedPlaylistUrl, setGeneratedPlaylistUrl] = useState<string | null>(null);
+  const [saveTargetId, setSaveTargetId] = useState<string | null>(null); // null = create a new playlist
+  const [playlistVisibility, setPlaylistVisibility] = useState<typeof PLAYLIST_VISIBILITY_OPTIONS[number]["value"]>("collaborative");
+  const [playlistOrder, setPlaylistOrder] = useState<typeof PLAYLIST_ORDER_OPTIONS[number]["value"]>("liked");
+  const [generateCover, setGenerateCover] = useState(true);
+  const [appendResult, setAppendResult] = useState<{ name: string; addedCount: number; skippedCount: number } | null>(null);
+  const [currentAudio, setCurrentAudio] = useState<HTMLAudioElement | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [audioError, setAudioError] = useState<string | null>(null);
+  const [currentPlaybackType, setCurrentPlaybackType] = useState<'deezer' | 'apple' | 'generic' | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const swipeCardRef = useRef<SwipeCardHandle>(null);
+  // Idempotency key for saving a playlist; reused on retry until the tracks or options change
+  const playlistSaveKeyRef = useRef<{ key: string; signature: string } | null>(null);
+  const cardShownAtRef = useRef(Date.now());
+  const currentTrackIndexRef = useRef(0);
+  const tracksRef = useRef<Track[]>([]);
+  const swipeSyncRef = useRef<Promise<unknown>>(Promise.resolve()); // Keeps swipe writes in order
+  const restoredHistoryRef = useRef(false);
+
+  // Fetch recommendations based on the seed, a page at a time; already-swiped tracks are excluded
+  // server-side, so served pages must not refetch mid-session or the current index would shift
+  const deckQueryOptions = {
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+    getNextPageParam: (lastPage: { nextCursor: number | null }) => lastPage.nextCursor,
+  };
+  const playlistDeck = api.recommendations.getByPlaylist.useInfiniteQuery({
+    playlistId: playlistId ?? "",
+    limit: 50,
+    mode: "vector",
+  }, { ...deckQueryOptions, enabled: seed.type === "playlist" });
+  const songDeck = api.recommendations.getBySong.useInfiniteQuery({
+    trackId: seedId ?? "",
+    limit: 50,
+  }, { ...deckQueryOptions, enabled: seed.type === "track" });
+  const collectionDeck = api.recommendations.getByCollection.useInfiniteQuery({
+    type: seed.type === "artist" ? "artist" : "album",
+    id: seedId ?? "",
+    limit: 50,
+  }, { ...deckQueryOptions, enabled: (seed.type === "album" || seed.type === "artist") });
+  const blendDeck = api.recommendations.blend.useInfiniteQuery({
+    playlistIds: blendPlaylistIds ?? [],
+    limit: 50,
+  }, { ...deckQueryOptions, enabled: seed.type === "blend" });
+  const {
+    data,
+    isPending: isRecommendationsPending,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = seed.type === "playlist" ? playlistDeck
+    : seed.type === "track" ? songDeck
+    : seed.type === "blend" ? blendDeck
+    : collectionDeck;
+
+  // Earlier swipes on this deck, to resume likes and stats
+  const { data: swipeHistory, isPending: isHistoryPending } = api.swipes.list.useQuery({
+    sourcePlaylistId: sourceId,
+  }, {
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+
+  const isLoading = isRecommendationsPending || isHistoryPending;
+  
+  const recommendations = data?.pages[0] as RecommendationResponse | undefined;
+  const seedName = recommendations?.seedTrack
+    ? `${recommendations.seedTrack.name} by ${recommendations.seedTrack.artist}`
+    : recommendations?.seedCollection?.name ??
+      recommendations?.playlists?.map(playlist => playlist.name).join(" + ") ??
+      recommendations?.originalPlaylist?.name;
+
+  // Other analyzed playlists like this one, suggested once the deck is done
+  const { data: similarPlaylists } = api.playlists.findSimilar.useQuery(
+    { playlistId: playlistId ?? "", limit: 5 },
+    { enabled: !!recommendations && seed.type === "playlist", staleTime: Infinity, refetchOnWindowFocus: false }
+  );
+  // Each page is the top of the ranking minus swiped songs, so it can repeat cards still waiting in the deck
+  const servedTracks = (data?.pages.flatMap(page => page.tracks) ?? [])
+    .filter((track, index, all) => all.findIndex(other => other.id === track.id) === index);
+
+  // Spotify login, needed to save playlists to the listener's own library
+  const { data: session } = api.auth.getSession.useQuery();
+
+  // Existing playlists the liked tracks can be added to instead of a new one
+  const { data: editablePlaylists } = api.playlists.listEditable.useQuery(undefined, {
+    enabled: !!session,
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+
+  const recordSwipe = api.swipes.record.useMutation();
+  const undoSwipe = api.swipes.undo.useMutation();
+  const setSwipeDirection = api.swipes.setDirection.useMutation();
+
+  // Records and undos are applied one after another, so an undo can't reach the server
+  // before the swipe it takes back
+  const syncSwipe = (write: () => Promise<unknown>, description: string) => {
+    swipeSyncRef.current = swipeSyncRef.current
+      .then(write)
+      .catch((error: unknown) => {
+        console.error(`Failed to ${description}:`, error);
+      });
+  };
+
+  // Add (+1) or take back (-1) a swipe's effect on the liked, super-liked, maybe and passed piles
+  const applySwipe = (track: Track, direction: SwipeDirection, change: 1 | -1) => {
+    const add = change === 1;
+
+    if (direction === "right" || direction === "up") {
+      setLikedTracks(prev => add ? [...prev, track] : prev.filter(t => t.id !== track.id));
+    }
+    if (direction === "up") {
+      setSuperLikedIds(prev => add ? [...prev, track.id] : prev.filter(id => id !== track.id));
+    }
+    if (direction === "down") {
+      setMaybeTracks(prev => add ? [...prev, track] : prev.filter(t => t.id !== track.id));
+    }
+    if (direction === "left") {
+      setPassedTrackIds(prev => add ? [...prev, track.id] : prev.filter(id => id !== track.id));
+    }
+
+    const stat = SWIPE_STAT[direction];
+    setSwipeStats(prev => ({
+      ...prev,
+      [stat]: Math.max(0, prev[stat] + change),
+      total: Math.max(0, prev.total + change)
+    }));
+  };
+
+  // Resume likes and stats from swipe history once it loads
+  useEffect(() => {
+    if (!swipeHistory || restoredHistoryRef.current) return;
+    restoredHistoryRef.current = true;
+
+    for (const swipe of swipeHistory) {
+      applySwipe(swipe.track, swipe.direction, 1);
+    }
+  }, [swipeHistory]);
+
+  // Pages served after the last re-rank go after the re-ranked deck
+  const deckIds = new Set(deck?.map(track => track.id));
+  const tracks = deck
+    ? [...deck, ...servedTracks.filter(track => !deckIds.has(track.id))]
+    : servedTracks;
+  const currentTrack = tracks[currentTrackIndex];
+
+  // Dwell time is measured from when a card is shown
+  useEffect(() => {
+    cardShownAtRef.current = Date.now();
+  }, [currentTrack?.id]);
+
+  useEffect(() => {
+    currentTrackIndexRef.current = currentTrackIndex;
+    tracksRef.current = tracks;
+  });
+
+  // Keep the deck topped up so a session can run indefinitely
+  useEffect(() => {
+    if (tracks.length - currentTrackIndex <= PREFETCH_REMAINING_CARDS && hasNextPage && !isFetchingNextPage) {
+      void fetchNextPage();
+    }
+  }, [tracks.length, currentTrackIndex, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const rerankDeck = api.recommendations.rerank.useMutation({
+    onSuccess: ({ trackIds }) => {
+      const order = new Map(trackIds.map((id, index) => [id, index]));
+
+      // Only cards after the one on screen move, since swipes may have happened meanwhile
+      setDeck(() => {
+        const current = tracksRef.current;
+        const keep = currentTrackIndexRef.current + 1;
+        const upcoming = current.slice(keep);
+
+        return [
+          ...current.slice(0, keep),
+          ...upcoming.filter(track => !order.has(track.id)),
+          ...upcoming
+            .filter(track => order.has(track.id))
+            .sort((a, b) => order.get(a.id)! - order.get(b.id)!),
+        ];
+      });
+    },
+    onError: (error) => {
+      console.error("Failed to re-rank deck:", error);
+    }
+  });
+
+  // Audio playback functions
+  const stopCurrentAudio = () => {
+    // Stop both ref and state audio
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.currentTime = 0;
+      audioRef.current.removeEventListener('timeupdate', handleTimeUpdate);
+      audioRef.current.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      audioRef.current.removeEventListener('ended', handleAudioEnded);
+      audioRef.current.removeEventListener('error', handleAudioError);
+      audioRef.current.removeEventListener('play', handleAudioPlay);
+      audioRef.current.removeEventListener('pause', handleAudioPause);
+      audioRef.current = null;
+    }
+    if (currentAudio) {
+      currentAudio.pause();
+      currentAudio.currentTime = 0;
+      currentAudio.removeEventListener('timeupdate', handleTimeUpdate);
+      currentAudio.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      currentAudio.removeEventListener('ended', handleAudioEnded);
+      currentAudio.removeEventListener('error', handleAudioError);
+      currentAudio.removeEventListener('play', handleAudioPlay);
+      currentAudio.removeEventListener('pause', handleAudioPause);
+    }
+    setIsPlaying(false);
+    setCurrentPlaybackType(null);
+    setCurrentTime(0);
+    setDuration(0);
+    setCurrentAudio(null);
+  };
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current ?? currentAudio;
+    if (audio && !isDragging) {
+      setCurrentTime(audio.currentTime);
+    }
+  };
+
+  const handleLoadedMetadata = () => {
+    const audio = audioRef.current ?? currentAudio;
+    if (audio) {
+      setDuration(audio.duration);
+    }
+  };
+
+  const handleAudioEnded = () => {
+    setIsPlaying(false);
+    setCurrentTime(0);
+  };
+
+  const handleAudioError = (e: Event) => {
+    console.error('Audio error:', e);
+    setAudioError("Audio playback failed");
+    setIsPlaying(false);
+  };
+
+  const handleAudioPlay = () => {
+    setIsPlaying(true);
+  };
+
+  const handleAudioPause = () => {
+    setIsPlaying(false);
+  };
+
+  const playTrack = (track: Track) => {
+    console.log('Playing track:', track.name, 'Stream URL:', track.stream_url);
+    
+    if (!track.stream_url) {
+      console.log('No stream URL available for track:', track.name);
+      setAudioError("No streaming source available for this track");
+      return;
+    }
+
+    // CRITICAL: Always stop current audio first
+    stopCurrentAudio();
+    setAudioError(null);
+
+    const audio = new Audio();
+    
+    // Set the ref immediately
+    audioRef.current = audio;
+    
+    // Add all event listeners before setting src
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
+    audio.addEventListener('ended', handleAudioEnded);
+    audio.addEventListener('error', handleAudioError);
+    audio.addEventListener('play', handleAudioPlay);
+    audio.addEventListener('pause', handleAudioPause);
+    
+    // Set start time to the smart start time (chorus/best part)
+    audio.addEventListener('loadeddata', () => {
+      if (track.smart_start_time) {
+        audio.currentTime = track.smart_start_time;
+      }
+    });
+
+    audio.addEventListener('canplaythrough', () => {
+      // Only play if this is still the current audio
+      if (audioRef.current === audio) {
+        audio.play().catch((error: unknown) => {
+          console.error('Audio play failed:', error);
+          setAudioError("Could not play audio - " + (error instanceof Error ? error.message : 'Unknown error'));
+        });
+      }
+    });
+
+    // Set the source AFTER adding event listeners
+    audio.src = track.stream_url;
+    audio.load();
+
+    // Determine playback type based on available IDs
+    if (track.deezer_id) {
+      setCurrentPlaybackType('deezer');
+    } else if (track.apple_music_id) {
+      setCurrentPlaybackType('apple');
+    } else {
+      setCurrentPlaybackType('generic');
+    }
+
+    setCurrentAudio(audio);
+  };
+
+  const togglePlayPause = () => {
+    if (!currentTrack) return;
+    
+    const audio = audioRef.current ?? currentAudio;
+    
+    if (isPlaying && audio) {
+      audio.pause();
+    } else if (audio && !isPlaying) {
+      audio.play().catch(error => {
+        console.error('Audio play failed:', error);
+        setAudioError("Could not play audio");
+      });
+    } else {
+      playTrack(currentTrack);
+    }
+  };
+
+  const handleSeek = (seekTime: number) => {
+    const audio = audioRef.current ?? currentAudio;
+    if (audio) {
+      audio.currentTime = seekTime;
+      setCurrentTime(seekTime);
+    }
+  };
+
+  const handleSeekWithDragging = (seekTime: number, dragging: boolean) => {
+    handleSeek(seekTime);
+    setIsDragging(dragging);
+  };
+
+  const formatTime = (time: number) => {
+    const minutes = Math.floor(time / 60);
+    const seconds = Math.floor(time % 60);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  // Auto-play when track changes
+  useEffect(() => {
+    if (currentTrack) {
+      // First, ensure any existing audio is stopped
+      stopCurrentAudio();
+      
+      // Small delay to let the card animation complete AND ensure cleanup
+      const timer = setTimeout(() => {
+        // Double check the track hasn't changed during the delay
+        if (currentTrack && tracks[currentTrackIndex]?.id === currentTrack.id) {
+          playTrack(currentTrack);
+        }
+      }, 800);
+      
+      return () => {
+        clearTimeout(timer);
+        // Also stop audio when effect cleans up
+        stopCurrentAudio();
+      };
+    }
+  }, [currentTrack, currentTrackIndex]);
+
+  // Cleanup audio on component unmount
+  useEffect(() => {
+    return () => {
+      stopCurrentAudio();
+    };
+  }, []);
+
+  // Handle swipe actions
+  const handleSwipe = (direction: SwipeDirection) => {
+    // CRITICAL: Stop current audio immediately
+    stopCurrentAudio();
+
+    if (currentTrack) {
+      const swipe = {
+        sourcePlaylistId: sourceId,
+        trackId: currentTrack.id,
+        direction,
+        dwellMs: Date.now() - cardShownAtRef.current,
+        position: swipeStats.total,
+        track: currentTrack,
+      };
+      syncSwipe(() => recordSwipe.mutateAsync(swipe), "save swipe");
+    }
+
+    if (currentTrack) {
+      setUndoStack(prev => [...prev, { track: currentTrack, direction, index: currentTrackIndex }].slice(-MAX_UNDO_STEPS));
+      applySwipe(currentTrack, direction, 1);
+    }
+
+    // Every few swipes, steer the unseen cards toward likes and away from passes (maybes are neutral);
+    // the next card is already on its way in, so it keeps its place
+    if (currentTrack && (swipeStats.total + 1) % RERANK_EVERY_SWIPES === 0) {
+      const likedIds = likedTracks.map(track => track.id);
+      const passedIds = [...passedTrackIds];
+      if (SWIPE_STAT[direction] === "likes") likedIds.push(currentTrack.id);
+      if (direction === "left") passedIds.push(currentTrack.id);
+
+      const candidateIds = tracks.slice(currentTrackIndex + 2, currentTrackIndex + 202).map(track => track.id);
+      if (candidateIds.length > 1) {
+        rerankDeck.mutate({
+          ...(playlistId ? { playlistId }
+            : blendPlaylistIds ? { playlistIds: blendPlaylistIds }
+            : { trackIds: recommendations?.seedCollection?.trackIds ?? [seedId!] }),
+          likedIds: likedIds.slice(-500),
+          passedIds: passedIds.slice(-500),
+          candidateIds,
+        });
+      }
+    }
+    
+    // Move to next track; the next page is prefetched before the deck runs out
+    setCurrentTrackIndex(prev => prev + 1);
+  };
+
+  // Bring back the last swiped card and revert its effect on likes and stats
+  const handleUndo = () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry || generatedPlaylistUrl) return;
+
+    stopCurrentAudio();
+    setUndoStack(prev => prev.slice(0, -1));
+    setIsFinished(false);
+    applySwipe(entry.track, entry.direction, -1);
+
+    // Re-ranking only moves cards after the current one, so the swiped card is still at its index
+    setCurrentTrackIndex(entry.index);
+
+    const undo = { sourcePlaylistId: sourceId, trackId: entry.track.id };
+    syncSwipe(() => undoSwipe.mutateAsync(undo), "undo swipe");
+  };
+
+  // Start a new deck seeded by a card; swipes on this deck are already saved for later
+  const handleMoreLikeThis = (track: Track) => {
+    stopCurrentAudio();
+    router.push(getDeckPath({ type: "track", id: track.id }));
+  };
+
+  // Settle a "maybe" from the completion screen into a like or a pass
+  const handleReviewMaybe = (track: Track, direction: "left" | "right") => {
+    applySwipe(track, "down", -1);
+    applySwipe(track, direction, 1);
+
+    // Its "maybe" swipe can no longer be undone as such
+    setUndoStack(prev => prev.filter(entry => entry.track.id !== track.id));
+
+    const update = { sourcePlaylistId: sourceId, trackId: track.id, direction };
+    syncSwipe(() => setSwipeDirection.mutateAsync(update), "review maybe");
+  };
+
+  // Keyboard controls: arrows swipe, space plays/pauses, brackets seek, Z (or Ctrl/Cmd+Z) undoes
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      const isTyping = target?.isContentEditable === true || target instanceof HTMLTextAreaElement ||
+        target instanceof HTMLSelectElement || (target instanceof HTMLInputElement && target.type !== "range");
+      if (isTyping || event.altKey) return;
+
+      if (event.key.toLowerCase() === "z" && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+        return;
+      }
+
+      // Undo still works on the completion screen, but there is no card left to swipe or play
+      if (event.metaKey || event.ctrlKey || isFinished || isExhausted || generatedPlaylistUrl) return;
+
+      switch (event.key) {
+        case "ArrowLeft":
+        case "ArrowRight":
+        case "ArrowUp":
+        case "ArrowDown":
+          event.preventDefault();
+          if (!event.repeat) {
+            swipeCardRef.current?.swipe(ARROW_DIRECTIONS[event.key]);
+          }
+          break;
+        case " ":
+          event.preventDefault();
+          if (!event.repeat) togglePlayPause();
+          break;
+        case "[":
+          handleSeek(Math.max(0, currentTime - SEEK_STEP_SECONDS));
+          break;
+        case "]":
+          handleSeek(Math.min(duration || 0, currentTime + SEEK_STEP_SECONDS));
+          break;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  // Swipes are persisted, so the deck resumes after the login redirect
+  const connectSpotify = () => {
+    window.location.href = `/api/auth/spotify/login?returnTo=${encodeURIComponent(deckPath)}`;
+  };
+
+  // Generate playlist mutation
+  const generatePlaylist = api.playlists.create.useMutation({
+    onSuccess: (data) => {
+      setGeneratedPlaylistUrl(data.playlistUrl);
+      setIsGeneratingPlaylist(false);
+    },
+    onError: (error) => {
+      console.error("Failed to generate playlist:", error);
+      setIsGeneratingPlaylist(false);
+
+      // Saving again resumes the same playlist rather than starting a new one
+      if (error.data?.code === "INTERNAL_SERVER_ERROR") {
+        alert("Saving your playlist didn't finish. Try again to pick up where it left off.");
+      }
+
+      // Spotify access expired or was revoked: sign in again
+      if (error.data?.code === "UNAUTHORIZED") {
+        connectSpotify();
+      }
+    }
+  });
+
+  const appendTracks = api.playlists.appendTracks.useMutation({
+    onSuccess: (data) => {
+      setAppendResult({ name: data.name, addedCount: data.addedCount, skippedCount: data.skippedCount });
+      setGeneratedPlaylistUrl(data.playlistUrl);
+      setIsGeneratingPlaylist(false);
+    },
+    onError: (error) => {
+      console.error("Failed to add tracks to playlist:", error);
+      setIsGeneratingPlaylist(false);
+
+      if (error.data?.code === "UNAUTHORIZED") {
+        connectSpotify();
+      } else if (error.data?.code === "FORBIDDEN") {
+        alert("You can't edit that playlist anymore. Pick another one.");
+      }
+    }
+  });
+
+  // The playlist being swiped from goes first when the user can edit it
+  const playlistChoices = [
+    ...(editablePlaylists ?? []).filter(playlist => playlist.id === playlistId),
+    ...(editablePlaylists ?? []).filter(playlist => playlist.id !== playlistId),
+  ];
+  const saveTarget = playlistChoices.find(playlist => playlist.id === saveTargetId) ?? null;
+
+  // Super likes are pinned to the top of the playlist, then likes in swipe order
+  const pinnedTracks = likedTracks.filter(track => superLikedIds.includes(track.id));
+  const playlistTracks = [
+    ...pinnedTracks,
+    ...likedTracks.filter(track => !superLikedIds.includes(track.id)),
+  ];
+  const pinnedTrackIds = pinnedTracks.map(track => track.id);
+
+  // Preview the order a new playlist will be saved in, with key and tempo per track
+  const { data: sequencePreview } = api.playlists.sequence.useQuery(
+    { trackIds: playlistTracks.map(track => track.id), order: playlistOrder, pinnedTrackIds },
+    {
+      enabled: !saveTarget && playlistOrder !== "liked" &&
+        playlistTracks.length > 1 && playlistTracks.length <= MAX_SEQUENCE_PREVIEW_TRACKS,
+      staleTime: Infinity,
+      refetchOnWindowFocus: false,
+    }
+  );
+  const previewedTracks = sequencePreview && !saveTarget && playlistOrder !== "liked"
+    ? sequencePreview.trackIds.flatMap(id => playlistTracks.find(track => track.id === id) ?? [])
+    : playlistTracks;
+  const sequencedTrackById = new Map(sequencePreview?.tracks.map(track => [track.trackId, track]));
+  const keyClashTrackIds = new Set(
+    sequencePreview?.transitions.filter(transition => !transition.keyCompatible).map(transition => transition.toTrackId)
+  );
+
+  const handleGeneratePlaylist = () => {
+    if (likedTracks.length === 0) {
+      alert("Please like at least one track first!");
+      return;
+    }
+
+    if (!session) {
+      connectSpotify();
+      return;
+    }
+    
+    setIsGeneratingPlaylist(true);
+
+    if (saveTarget) {
+      appendTracks.mutate({
+        playlistId: saveTarget.id,
+        trackIds: playlistTracks.map(track => track.id),
+      });
+      return;
+    }
+
+    const trackIds = playlistTracks.map(track => track.id);
+    const signature = [playlistVisibility, playlistOrder, generateCover, ...trackIds].join(",");
+    if (playlistSaveKeyRef.current?.signature !== signature) {
+      playlistSaveKeyRef.current = { key: crypto.randomUUID(), signature };
+    }
+
+    generatePlaylist.mutate({
+      clientKey: playlistSaveKeyRef.current.key,
+      name: `Spwipe Discovery - ${new Date().toLocaleDateString()}`,
+      trackIds,
+      visibility: playlistVisibility,
+      order: playlistOrder,
+      pinnedTrackIds,
+      coverImage: generateCover,
+      description: `Generated from ${seedName ?? "playlist"} with ${likedTracks.length} liked tracks`
+    });
+  };
+
+  const handleOpenInSpotify = (url: string) => {
+    window.open(url, '_blank');
+  };
+
+  // Enhanced Loading state with liquid glass effect
+  if (isLoading) {
+    return (
+      <div className="relative min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 text-white overflow-hidden">
+        <DiscoverLiquidBackground />
+        
+        <div className="relative z-20 flex min-h-screen items-center justify-center px-6">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.8 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ duration: 0.8, type: "spring", stiffness: 100 }}
+            className="text-center"
+          >
+            {/* Glass card container */}
+            <div className="bg-white/5 backdrop-blur-xl rounded-3xl p-12 border border-white/10 shadow-2xl max-w-md mx-auto relative overflow-hidden">
+              {/* Glass shine effect */}
+              <div className="absolute inset-0 bg-gradient-to-br from-white/10 via-transparent to-transparent opacity-50" />
+              <div className="absolute top-0 left-0 w-full h-px bg-gradient-to-r from-transparent via-white/20 to-transparent" />
+              
+              <div className="relative z-10">
+                <LoadingAnimation />
+                
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.5 }}
+                >
+                  <h2 className="text-2xl md:text-3xl font-bold mb-4 bg-gradient-to-r from-white via-green-200 to-white bg-clip-text text-transparent">
+                    🎵 Analyzing Your {SEED_LABELS[seed.type]}
+                  </h2>
+                  
+                  {recommendations?.originalPlaylist && (
+                    <motion.div
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: 0.3 }}
+                      className="mb-4"
+                    >
+                      <p className="text-green-400 font-medium text-lg">
+                        {recommendations.originalPlaylist.name}
+                      </p>
+                      {recommendations.originalPlaylist.description && (
+                        <p className="text-gray-400 text-sm mt-1">
+                          {recommendations.originalPlaylist.description}
+                        </p>
+                      )}
+                      <p className="text-gray-500 text-sm mt-1">
+                        {recommendations.originalPlaylist.total_tracks} tracks
+                      </p>
+                    </motion.div>
+                  )}
+                  
+                  <motion.p
+                    className="text-gray-300 text-lg mb-6"
+                    animate={{ opacity: [0.5, 1, 0.5] }}
+                    transition={{ duration: 2, repeat: Infinity }}
+                  >
+                    Our AI is discovering tracks that match your vibe...
+                  </motion.p>
+                  
+                  {/* Progress steps */}
+                  <div className="space-y-4">
+                    {[
+                      { text: "🔍 Scanning playlist tracks", delay: 0 },
+                      { text: "🧠 Analyzing musical patterns", delay: 0.5 },
+                      { text: "✨ Finding perfect matches", delay: 1 }
+                    ].map((step, index) => (
+                      <motion.div
+                        key={index}
+                        initial={{ opacity: 0, x: -20 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        transition={{ delay: step.delay + 1 }}
+                        className="flex items-center justify-center text-sm text-gray-400"
+                      >
+                        <motion.span
+                          animate={{ 
+                            scale: [1, 1.1, 1],
+                            opacity: [0.5, 1, 0.5]
+                          }}
+                          transition={{ 
+                            duration: 2, 
+                            repeat: Infinity, 
+                            delay: step.delay + 1.5 
+                          }}
+                        >
+                          {step.text}
+                        </motion.span>
+                      </motion.div>
+                    ))}
+                  </div>
+                </motion.div>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      </div>
+    );
+  }
+
+  // Enhanced Error state with liquid glass effect
+  if (error) {
+    return (
+      <div className="relative min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 text-white overflow-hidden">
+        <DiscoverLiquidBackground />
+        
+        <div className="relative z-20 flex min-h-screen items-center justify-center px-6">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.8 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ duration: 0.8, type: "spring", stiffness: 100 }}
+            className="text-center"
+          >
+            {/* Glass card container */}
+            <div className="bg-white/5 backdrop-blur-xl rounded-3xl p-12 border border-white/10 shadow-2xl max-w-md mx-auto relative overflow-hidden">
+              {/* Glass shine effect */}
+              <div className="absolute inset-0 bg-gradient-to-br from-white/10 via-transparent to-transparent opacity-50" />
+              <div className="absolute top-0 left-0 w-full h-px bg-gradient-to-r from-transparent via-white/20 to-transparent" />
+              
+              <div className="relative z-10">
+                <motion.div
+                  animate={{ 
+                    scale: [1, 1.1, 1],
+                    rotate: [0, 5, -5, 0]
+                  }}
+                  transition={{ duration: 2, repeat: Infinity }}
+                  className="text-6xl mb-6"
+                >
+                  ⚠️
+                </motion.div>
+                
+                <h1 className="text-3xl font-bold mb-4 bg-gradient-to-r from-red-400 via-orange-300 to-red-400 bg-clip-text text-transparent">
+                  Oops! Something went wrong
+                </h1>
+                
+                <p className="text-gray-300 mb-8 text-lg leading-relaxed">
+                  {error instanceof Error ? error.message : 'An unexpected error occurred'}
+                </p>
+                
+                <motion.button
+                  onClick={() => router.push("/")}
+                  whileHover={{ scale: 1.05, y: -2 }}
+                  whileTap={{ scale: 0.95 }}
+                  className="group relative bg-gradient-to-r from-green-400 to-emerald-500 hover:from-green-500 hover:to-emerald-600 text-black font-bold py-4 px-8 rounded-2xl transition-all duration-300 text-lg overflow-hidden"
+                >
+                  {/* Button glow effect */}
+                  <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 opacity-0 group-hover:opacity-20 blur-xl transition-opacity duration-300" />
+                  
+                  <span className="relative z-10">
+                    🏠 Back to Home
+                  </span>
+                </motion.button>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      </div>
+    );
+  }
+
+  // Enhanced Completed state with liquid glass
+  const isExhausted = currentTrackIndex >= tracks.length && !hasNextPage && !isFetchingNextPage;
+  if (isFinished || isExhausted || generatedPlaylistUrl) {
+    return (
+      <div className="relative min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 text-white overflow-hidden">
+        <DiscoverLiquidBackground />
+        
+        <div className="relative z-20 flex min-h-screen items-center justify-center p-6">
+          <div className="w-full max-w-5xl">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.8, y: 30 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              transition={{ 
+                duration: 0.8, 
+                type: "spring",
+                stiffness: 100,
+                damping: 15
+              }}
+              className="text-center mb-8"
+            >
+              {/* Celebration Icon with Animation */}
+              <motion.div
+                animate={{ 
+                  scale: [1, 1.2, 1],
+                  rotate: [0, 10, -10, 0]
+                }}
+                transition={{ 
+                  duration: 2, 
+                  repeat: Infinity,
+                  ease: "easeInOut"
+                }}
+                className="text-8xl mb-6"
+              >
+                {generatedPlaylistUrl ? "🎊" : "🎉"}
+              </motion.div>
+              
+              {/* Enhanced Title */}
+              <motion.h1 
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.3 }}
+                className="text-5xl md:text-6xl font-black mb-6 bg-gradient-to-r from-white via-green-200 to-white bg-clip-text text-transparent"
+              >
+                {generatedPlaylistUrl ? "🎵 Playlist Created!" : "✨ Discovery Complete!"}
+              </motion.h1>
+            </motion.div>
+              
+            {/* Enhanced Stats Card */}
+              <motion.div 
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.5 }}
+                className="bg-white/10 backdrop-blur-2xl p-8 rounded-3xl mb-8 border border-white/20 shadow-2xl relative overflow-hidden"
+              >
+                {/* Glass shine effect */}
+                <div className="absolute inset-0 bg-gradient-to-br from-white/10 via-transparent to-transparent opacity-50" />
+                <div className="absolute top-0 left-0 w-full h-px bg-gradient-to-r from-transparent via-white/20 to-transparent" />
+                
+                <div className="relative z-10">
+                  <h2 className="text-2xl font-bold mb-6 text-green-400 text-center">🎯 Your Discovery Stats</h2>
+                  <div className="grid grid-cols-3 gap-6 text-center">
+                    <motion.div
+                      initial={{ scale: 0 }}
+                      animate={{ scale: 1 }}
+                      transition={{ delay: 0.7, type: "spring", stiffness: 200 }}
+                      className="bg-green-500/10 backdrop-blur-xl p-4 rounded-2xl border border-green-400/30"
+                    >
+                      <motion.div 
+                        animate={{ scale: [1, 1.1, 1] }}
+                        transition={{ duration: 2, repeat: Infinity, delay: 0.5 }}
+                        className="text-4xl font-black text-green-400 mb-2"
+                      >
+                        {swipeStats.likes}
+                      </motion.div>
+                      <div className="text-sm font-medium text-gray-300">❤️ Loved</div>
+                    </motion.div>
+                    
+                    <motion.div
+                      initial={{ scale: 0 }}
+                      animate={{ scale: 1 }}
+                      transition={{ delay: 0.8, type: "spring", stiffness: 200 }}
+                      className="bg-red-500/10 backdrop-blur-xl p-4 rounded-2xl border border-red-400/30"
+                    >
+                      <motion.div 
+                        animate={{ scale: [1, 1.1, 1] }}
+                        transition={{ duration: 2, repeat: Infinity, delay: 1 }}
+                        className="text-4xl font-black text-red-400 mb-2"
+                      >
+                        {swipeStats.passes}
+                      </motion.div>
+                      <div className="text-sm font-medium text-gray-300">✖️ Passed</div>
+                    </motion.div>
+                    
+                    <motion.div
+                      initial={{ scale: 0 }}
+                      animate={{ scale: 1 }}
+                      transition={{ delay: 0.9, type: "spring", stiffness: 200 }}
+                      className="bg-blue-500/10 backdrop-blur-xl p-4 rounded-2xl border border-blue-400/30"
+                    >
+                      <motion.div 
+                        animate={{ scale: [1, 1.1, 1] }}
+                        transition={{ duration: 2, repeat: Infinity, delay: 1.5 }}
+                        className="text-4xl font-black text-blue-400 mb-2"
+                      >
+                        {swipeStats.total}
+                      </motion.div>
+                      <div className="text-sm font-medium text-gray-300">🎵 Total</div>
+                    </motion.div>
+                  </div>
+                  {(superLikedIds.length > 0 || swipeStats.maybes > 0) && (
+                    <p className="mt-4 text-center text-sm text-gray-400">
+                      ⭐ {superLikedIds.length} super liked • 🤔 {swipeStats.maybes} still maybe
+                    </p>
+                  )}
+                </div>
+              </motion.div>
+
+            {/* Enhanced Liked Songs List */}
+            {likedTracks.length > 0 && (
+              <motion.div 
+                initial={{ opacity: 0, y: 30 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 1 }}
+                className="bg-white/10 backdrop-blur-2xl p-6 rounded-3xl mb-8 border border-white/20 shadow-2xl relative overflow-hidden"
+              >
+                {/* Glass shine effect */}
+                <div className="absolute inset-0 bg-gradient-to-br from-white/10 via-transparent to-transparent opacity-50" />
+                <div className="absolute top-0 left-0 w-full h-px bg-gradient-to-r from-transparent via-white/20 to-transparent" />
+                
+                <div className="relative z-10">
+                  <motion.h2 
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: 1.2 }}
+                    className="text-2xl font-bold mb-6 text-green-400"
+                  >
+                    🎵 Your Curated Tracks ({likedTracks.length})
+                  </motion.h2>
+                  
+                  <div className="max-h-80 overflow-y-auto space-y-3 pr-2 scrollbar-thin scrollbar-thumb-white/20 scrollbar-track-transparent">
+                    {previewedTracks.map((track, index) => (
+                      <motion.div 
+                        key={track.id}
+                        initial={{ opacity: 0, x: -20 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        transition={{ delay: 1.3 + index * 0.1 }}
+                        whileHover={{ scale: 1.02, x: 5 }}
+                        className="flex items-center gap-4 p-4 bg-white/5 backdrop-blur-xl rounded-2xl hover:bg-white/10 transition-all duration-300 border border-white/10 hover:border-white/20 group"
+                      >
+                        <div className="relative">
+                          <img
+                            src={track.image}
+                            alt={track.album}
+                            className="w-14 h-14 rounded-xl object-cover shadow-lg group-hover:shadow-xl transition-shadow duration-300"
+                          />
+                          <div className="absolute -top-1 -left-1 bg-green-400 text-black text-xs font-bold w-6 h-6 rounded-full flex items-center justify-center shadow-lg">
+                            {index + 1}
+                          </div>
+                        </div>
+                        
+                        <div className="flex-1 min-w-0">
+                          <div className="font-semibold truncate text-white group-hover:text-green-200 transition-colors">
+                            {track.name}
+                          </div>
+                          <div className="text-sm text-gray-400 truncate group-hover:text-gray-300 transition-colors">
+                            {track.artist}
+                          </div>
+                          <div className="text-xs text-gray-500 mt-1">
+                            {superLikedIds.includes(track.id) && "⭐ Super like • "}
+                            {track.year} • {track.popularity}% popular
+                          </div>
+                          {previewedTracks !== playlistTracks && sequencedTrackById.has(track.id) && (
+                            <div className="text-xs text-gray-500 mt-1">
+                              🎹 {sequencedTrackById.get(track.id)!.camelot ?? "?"} • {Math.round(sequencedTrackById.get(track.id)!.tempo)} BPM
+                              {keyClashTrackIds.has(track.id) && <span className="text-yellow-400"> • key change</span>}
+                            </div>
+                          )}
+                        </div>
+                        
+                        <motion.button
+                          onClick={() => window.open(track.external_urls.spotify, '_blank')}
+                          whileHover={{ scale: 1.1 }}
+                          whileTap={{ scale: 0.95 }}
+                          className="bg-green-500/20 hover:bg-green-500/40 text-green-400 hover:text-green-300 w-10 h-10 rounded-full flex items-center justify-center transition-all duration-200 backdrop-blur-xl border border-green-400/30 hover:border-green-400/50 shadow-lg"
+                          title="Open in Spotify"
+                        >
+                          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                            <path d="M12 0C5.4 0 0 5.4 0 12s5.4 12 12 12 12-5.4 12-12S18.66 0 12 0zm5.521 17.34c-.24.359-.66.48-1.021.24-2.82-1.74-6.36-2.101-10.561-1.141-.418.122-.84-.179-.84-.6 0-.359.24-.66.54-.78 4.56-1.021 8.52-.6 11.64 1.32.42.18.479.659.242 1.021zm1.44-3.3c-.301.42-.841.6-1.262.3-3.239-1.98-8.159-2.58-11.939-1.38-.479.12-1.02-.12-1.14-.6-.12-.48.12-1.021.6-1.141C9.6 9.9 15 10.561 18.72 12.84c.361.181.54.78.241 1.2zm.12-3.36C15.24 8.4 8.82 8.16 5.16 9.301c-.6.179-1.2-.181-1.38-.721-.18-.601.18-1.2.72-1.381 4.26-1.26 11.28-1.02 15.721 1.621.539.3.719 1.02.42 1.56-.299.421-1.02.599-1.559.3z"/>
+                          </svg>
+                        </motion.button>
+                      </motion.div>
+                    ))}
+                  </div>
+                </div>
+              </motion.div>
+            )}
+
+            {/* Maybe pile: settle each into a like or a pass before saving */}
+            {maybeTracks.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 30 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 1.1 }}
+                className="bg-white/10 backdrop-blur-2xl p-6 rounded-3xl mb-8 border border-white/20 shadow-2xl relative overflow-hidden"
+              >
+                <div className="absolute inset-0 bg-gradient-to-br from-white/10 via-transparent to-transparent opacity-50" />
+
+                <div className="relative z-10">
+                  <h2 className="text-2xl font-bold mb-2 text-blue-300">🤔 Maybe Pile ({maybeTracks.length})</h2>
+                  <p className="text-sm text-gray-400 mb-6">Add them to your playlist or drop them.</p>
+
+                  <div className="max-h-80 overflow-y-auto space-y-3 pr-2">
+                    {maybeTracks.map(track => (
+                      <div
+                        key={track.id}
+                        className="flex items-center gap-4 p-4 bg-white/5 backdrop-blur-xl rounded-2xl border border-white/10"
+                      >
+                        <img
+                          src={track.image}
+                          alt={track.album}
+                          className="w-14 h-14 rounded-xl object-cover shadow-lg"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="font-semibold truncate text-white">{track.name}</div>
+                          <div className="text-sm text-gray-400 truncate">{track.artist}</div>
+                        </div>
+                        <button
+                          onClick={() => handleReviewMaybe(track, "right")}
+                          className="bg-green-500/20 hover:bg-green-500/40 text-green-300 text-sm font-semibold px-4 py-2 rounded-full border border-green-400/30 transition-colors"
+                        >
+                          Add
+                        </button>
+                        <button
+                          onClick={() => handleReviewMaybe(track, "left")}
+                          className="bg-red-500/10 hover:bg-red-500/30 text-red-300 text-sm font-semibold px-4 py-2 rounded-full border border-red-400/30 transition-colors"
+                        >
+                          Drop
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </motion.div>
+            )}
+
+            {/* Similar playlists from other curators */}
+            {similarPlaylists && similarPlaylists.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 30 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 1.2 }}
+                className="bg-white/10 backdrop-blur-2xl p-6 rounded-3xl mb-8 border border-white/20 shadow-2xl relative overflow-hidden"
+              >
+                <div className="absolute inset-0 bg-gradient-to-br from-white/10 via-transparent to-transparent opacity-50" />
+
+                <div className="relative z-10">
+                  <h2 className="text-2xl font-bold mb-6 text-purple-300">🧭 Playlists Like This One</h2>
+
+                  <div className="space-y-3">
+                    {similarPlaylists.map(playlist => (
+                      <div
+                        key={playlist.id}
+                        className="flex items-center gap-4 p-4 bg-white/5 backdrop-blur-xl rounded-2xl border border-white/10"
+                      >
+                        <div className="text-lg font-black text-purple-300 w-14 text-center">
+                          {Math.round(playlist.similarity * 100)}%
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="font-semibold truncate text-white">{playlist.name}</div>
+                          <div className="text-sm text-gray-400 truncate">
+                            {playlist.summary || (playlist.sharedGenres.length > 0 ? playlist.sharedGenres.slice(0, 3).join(", ") : "A close match")}
+                            {" "}• {playlist.trackCount} tracks
+                          </div>
+                        </div>
+                        <button
+                          onClick={() => router.push(`/discover/${playlist.id}`)}
+                          className="bg-purple-500/20 hover:bg-purple-500/40 text-purple-200 text-sm font-semibold px-4 py-2 rounded-full border border-purple-400/30 transition-colors"
+                        >
+                          Swipe
+                        </button>
+                        <button
+                          onClick={() => handleOpenInSpotify(playlist.url)}
+                          className="text-gray-400 hover:text-white text-sm px-2"
+                          title="Open in Spotify"
+                        >
+                          ↗
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </motion.div>
+            )}
+
+            {/* Enhanced Action Buttons */}
+            <motion.div 
+              initial={{ opacity: 0, y: 30 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 1.5 }}
+              className="flex flex-col gap-6"
+            >
+              {generatedPlaylistUrl ? (
+                <div className="space-y-6">
+                  {/* Success Card */}
+                  <motion.div 
+                    initial={{ scale: 0.9 }}
+                    animate={{ scale: 1 }}
+                    className="bg-green-500/10 backdrop-blur-2xl p-8 rounded-3xl border border-green-400/30 shadow-2xl relative overflow-hidden"
+                  >
+                    {/* Success glow effect */}
+                    <div className="absolute inset-0 bg-gradient-to-br from-green-400/10 via-transparent to-transparent opacity-50" />
+                    <div className="absolute top-0 left-0 w-full h-px bg-gradient-to-r from-transparent via-green-400/40 to-transparent" />
+                    
+                    <div className="relative z-10 text-center">
+                      <motion.div
+                        animate={{ scale: [1, 1.1, 1] }}
+                        transition={{ duration: 2, repeat: Infinity }}
+                        className="text-4xl mb-4"
+                      >
+                        🎊
+                      </motion.div>
+                      <h3 className="text-2xl font-bold text-green-400 mb-3">Playlist Ready!</h3>
+                      {appendResult ? (
+                        <p className="text-gray-300 mb-6 text-lg leading-relaxed">
+                          Added <span className="text-green-400 font-semibold">{appendResult.addedCount} tracks</span> to {appendResult.name}
+                          {appendResult.skippedCount > 0 && ` (${appendResult.skippedCount} were already there)`}.
+                        </p>
+                      ) : (
+                        <p className="text-gray-300 mb-6 text-lg leading-relaxed">
+                          Your {playlistVisibility} playlist with <span className="text-green-400 font-semibold">{likedTracks.length} curated tracks</span> is ready to share with the world!
+                        </p>
+                      )}
+                      
+                      <motion.button
+                        onClick={() => handleOpenInSpotify(generatedPlaylistUrl)}
+                        whileHover={{ scale: 1.05, y: -2 }}
+                        whileTap={{ scale: 0.95 }}
+                        className="group relative w-full bg-gradient-to-r from-green-400 to-emerald-500 hover:from-green-500 hover:to-emerald-600 text-black font-bold py-4 px-8 rounded-2xl transition-all duration-300 text-lg overflow-hidden shadow-xl"
+                      >
+                        {/* Button glow effect */}
+                        <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 opacity-0 group-hover:opacity-20 blur-xl transition-opacity duration-300" />
+                        
+                        <span className="relative z-10 flex items-center justify-center gap-3">
+                          🎧 Open Playlist in Spotify
+                        </span>
+                      </motion.button>
+                    </div>
+                  </motion.div>
+                  
+                  <motion.button
+                    onClick={() => router.push("/")}
+                    whileHover={{ scale: 1.02, y: -2 }}
+                    whileTap={{ scale: 0.98 }}
+                    className="w-full bg-white/10 hover:bg-white/20 backdrop-blur-xl text-white py-4 px-6 rounded-2xl transition-all duration-300 border border-white/20 hover:border-white/40 font-medium"
+                  >
+                    🔄 Discover More Music
+                  </motion.button>
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  {session && playlistChoices.length > 0 && (
+                    <label className="block">
+                      <span className="block text-sm text-gray-400 mb-2">Save liked tracks to</span>
+                      <select
+                        value={saveTargetId ?? ""}
+                        onChange={(e) => setSaveTargetId(e.target.value || null)}
+                        disabled={isGeneratingPlaylist}
+                        className="w-full bg-white/10 backdrop-blur-xl text-white py-3 px-4 rounded-2xl border border-white/20 focus:border-green-400/60 focus:outline-none"
+                      >
+                        <option value="" className="bg-gray-900">✨ A new playlist</option>
+                        {playlistChoices.map(playlist => (
+                          <option key={playlist.id} value={playlist.id} className="bg-gray-900">
+                            {playlist.id === playlistId ? "↩️ " : ""}{playlist.name} ({playlist.trackCount} tracks)
+                            {playlist.id === playlistId ? " · swiped from" : ""}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+
+                  {session && !saveTarget && (
+                    <div className="space-y-3 bg-white/5 backdrop-blur-xl p-4 rounded-2xl border border-white/10 text-sm">
+                      <div className="flex gap-2">
+                        {PLAYLIST_VISIBILITY_OPTIONS.map(option => (
+                          <button
+                            key={option.value}
+                            type="button"
+                            onClick={() => setPlaylistVisibility(option.value)}
+                            className={`flex-1 py-2 rounded-xl border transition-colors ${
+                              playlistVisibility === option.value
+                                ? "bg-green-500/20 border-green-400/50 text-green-300"
+                                : "bg-white/5 border-white/10 text-gray-300 hover:bg-white/10"
+                            }`}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                      <label className="flex items-center justify-between gap-3 text-gray-300">
+                        <span>Order</span>
+                        <select
+                          value={playlistOrder}
+                          onChange={(e) => setPlaylistOrder(e.target.value as typeof playlistOrder)}
+                          className="flex-1 max-w-xs bg-white/10 text-white py-2 px-3 rounded-xl border border-white/20 focus:outline-none"
+                        >
+                          {PLAYLIST_ORDER_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value} className="bg-gray-900">
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="flex items-center gap-3 text-gray-300 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={generateCover}
+                          onChange={(e) => setGenerateCover(e.target.checked)}
+                          className="accent-green-400"
+                        />
+                        Album art mosaic cover
+                      </label>
+                    </div>
+                  )}
+
+                  <motion.button
+                    onClick={handleGeneratePlaylist}
+                    disabled={isGeneratingPlaylist || likedTracks.length === 0}
+                    whileHover={{ scale: isGeneratingPlaylist || likedTracks.length === 0 ? 1 : 1.02, y: isGeneratingPlaylist || likedTracks.length === 0 ? 0 : -2 }}
+                    whileTap={{ scale: isGeneratingPlaylist || likedTracks.length === 0 ? 1 : 0.98 }}
+                    className="group relative w-full bg-gradient-to-r from-green-400 to-emerald-500 hover:from-green-500 hover:to-emerald-600 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed text-black font-bold py-5 px-8 rounded-2xl transition-all duration-300 text-xl overflow-hidden shadow-xl"
+                  >
+                    {/* Button glow effect */}
+                    <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 opacity-0 group-hover:opacity-20 blur-xl transition-opacity duration-300" />
+                    
+                    <span className="relative z-10">
+                      {isGeneratingPlaylist ? (
+                        <div className="flex items-center justify-center gap-3">
+                          <motion.div 
+                            animate={{ rotate: 360 }}
+                            transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+                            className="rounded-full h-6 w-6 border-b-2 border-black"
+                          />
+                          {saveTarget ? "✨ Adding Your Tracks..." : "✨ Creating Your Playlist..."}
+                        </div>
+                      ) : saveTarget ? (
+                        `➕ Add to ${saveTarget.name} (${likedTracks.length} tracks)`
+                      ) : session ? (
+                        `🎵 Create Playlist (${likedTracks.length} tracks)`
+                      ) : (
+                        `🔗 Connect Spotify to Save (${likedTracks.length} tracks)`
+                      )}
+                    </span>
+                  </motion.button>
+
+                  {session && (
+                    <form
+                      action={`/api/auth/spotify/logout?returnTo=${encodeURIComponent(deckPath)}`}
+                      method="post"
+                      className="text-center text-sm text-gray-400"
+                    >
+                      Saving to {session.user.name ? `${session.user.name}'s` : "your"} Spotify library ·{" "}
+                      <button type="submit" className="text-gray-300 hover:text-white underline">
+                        Sign out
+                      </button>
+                    </form>
+                  )}
+                  
+                  <motion.button
+                    onClick={() => router.push("/")}
+                    whileHover={{ scale: 1.02, y: -2 }}
+                    whileTap={{ scale: 0.98 }}
+                    className="w-full bg-white/10 hover:bg-white/20 backdrop-blur-xl text-white py-4 px-6 rounded-2xl transition-all duration-300 border border-white/20 hover:border-white/40 font-medium"
+                  >
+                    🏠 Start Over
+                  </motion.button>
+
+                  {undoStack.length > 0 && (
+                    <motion.button
+                      onClick={handleUndo}
+                      whileHover={{ scale: 1.02, y: -2 }}
+                      whileTap={{ scale: 0.98 }}
+                      className="w-full bg-white/5 hover:bg-white/10 backdrop-blur-xl text-gray-300 py-3 px-6 rounded-2xl transition-all duration-300 border border-white/10 hover:border-white/30 font-medium"
+                    >
+                      ↩️ Undo Last Swipe
+                    </motion.button>
+                  )}
+                </div>
+              )}
+            </motion.div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Main swipe interface with liquid glass enhancement
+  return (
+    <div className="relative min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 text-white overflow-hidden">
+      <DiscoverLiquidBackground />
+      
+      <div className="relative z-20 flex min-h-screen flex-col">
+        {/* Enhanced Header with Glass Effect */}
+        <motion.div 
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          className="flex justify-between items-center p-6 bg-white/5 backdrop-blur-xl border-b border-white/10"
+        >
+          <motion.button
+            onClick={() => router.push("/")}
+            whileHover={{ scale: 1.05, x: -5 }}
+            whileTap={{ scale: 0.95 }}
+            className="flex items-center gap-2 text-green-400 hover:text-green-300 text-xl font-medium transition-all duration-200 group"
+          >
+            <motion.span
+              animate={{ x: [-2, 0, -2] }}
+              transition={{ duration: 2, repeat: Infinity }}
+            >
+              ←
+            </motion.span>
+            <span className="group-hover:text-white transition-colors">Spwipe</span>
+          </motion.button>
+          
+          <div className="flex gap-3 items-center">
+            <motion.div 
+              className="bg-white/10 backdrop-blur-xl px-5 py-2 rounded-full border border-white/20 shadow-lg"
+              whileHover={{ scale: 1.05 }}
+            >
+              <span className="text-green-400 text-sm font-semibold">❤️ {swipeStats.likes}</span>
+            </motion.div>
+            
+            <motion.div 
+              className="bg-white/10 backdrop-blur-xl px-5 py-2 rounded-full border border-white/20 shadow-lg"
+              whileHover={{ scale: 1.05 }}
+            >
+              <span className="text-red-400 text-sm font-semibold">✖️ {swipeStats.passes}</span>
+            </motion.div>
+            
+            <motion.button
+              onClick={handleUndo}
+              disabled={undoStack.length === 0}
+              whileHover={{ scale: undoStack.length === 0 ? 1 : 1.05 }}
+              whileTap={{ scale: undoStack.length === 0 ? 1 : 0.95 }}
+              className="bg-white/10 hover:bg-white/20 disabled:opacity-40 disabled:cursor-not-allowed backdrop-blur-xl px-5 py-2 rounded-full border border-white/20 hover:border-white/40 transition-all duration-200 shadow-lg"
+              title="Undo last swipe (Z)"
+            >
+              <span className="text-gray-200 text-sm font-semibold">↩️ Undo</span>
+            </motion.button>
+            
+            <motion.button
+              onClick={() => setIsFinished(true)}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              className="bg-blue-500/20 hover:bg-blue-500/30 backdrop-blur-xl px-5 py-2 rounded-full border border-blue-400/30 hover:border-blue-400/50 transition-all duration-200 shadow-lg"
+              title="Skip to playlist creation"
+            >
+              <span className="text-blue-400 text-sm font-semibold">⏭️ Skip to Playlist</span>
+            </motion.button>
+            
+            {likedTracks.length > 0 && (
+              <motion.button
+                onClick={() => setIsFinished(true)}
+                initial={{ opacity: 0, scale: 0.8 }}
+                animate={{ opacity: 1, scale: 1 }}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className="bg-green-500/20 hover:bg-green-500/30 backdrop-blur-xl px-5 py-2 rounded-full border border-green-400/30 hover:border-green-400/50 transition-all duration-200 shadow-lg"
+              >
+                <span className="text-green-400 text-sm font-semibold">🎵 {likedTracks.length} ready</span>
+              </motion.button>
+            )}
+          </div>
+        </motion.div>
+
+        {/* Styles detected in a mixed playlist; recommendations are drawn from each */}
+        {recommendations?.clusters && recommendations.clusters.length > 1 && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="flex flex-wrap justify-center items-center gap-2 px-6 pt-4 text-xs"
+          >
+            <span className="text-gray-400">🧩 Mixing {recommendations.clusters.length} styles:</span>
+            {recommendations.clusters.map((cluster, index) => (
+              <span
+                key={index}
+                className="bg-white/10 backdrop-blur-xl px-3 py-1 rounded-full border border-white/20 text-gray-200"
+                title={`Energy ${Math.round(cluster.avgEnergy * 100)}%, mood ${Math.round(cluster.avgValence * 100)}%`}
+              >
+                {cluster.genres.length > 0 ? cluster.genres.slice(0, 2).join(" / ") : "Unlabeled"}
+                <span className="text-green-400 ml-1">{Math.round(cluster.share * 100)}%</span>
+              </span>
+            ))}
+          </motion.div>
+        )}
+
+        {/* Enhanced Progress Bar with Glass Effect */}
+        <motion.div 
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.3 }}
+          className="px-6 mb-6"
+        >
+          <div className="relative w-full bg-white/10 backdrop-blur-xl h-2 rounded-full border border-white/20 shadow-lg overflow-hidden">
+            <motion.div 
+              className="bg-gradient-to-r from-green-400 to-emerald-500 h-full rounded-full relative"
+              initial={{ width: 0 }}
+              animate={{ width: `${(currentTrackIndex / tracks.length) * 100}%` }}
+              transition={{ duration: 0.8, ease: "easeOut" }}
+            >
+              {/* Glow effect */}
+              <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 blur-sm opacity-50" />
+            </motion.div>
+          </div>
+          
+          <div className="flex justify-between text-sm text-gray-400 mt-3 font-medium">
+            <motion.span
+              animate={{ opacity: [0.5, 1, 0.5] }}
+              transition={{ duration: 2, repeat: Infinity }}
+            >
+              Track {currentTrackIndex + 1}
+            </motion.span>
+            <span>{tracks.length}{hasNextPage ? "+" : ""} total</span>
+          </div>
+        </motion.div>
+
+        {/* Enhanced Main Content Area */}
+        <div className="flex-1 flex items-center justify-center px-6 py-8">
+          <div className="w-full max-w-lg">
+            <AnimatePresence mode="wait">
+              {currentTrack && (
+                <motion.div
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  exit={{ opacity: 0 }}
+                  transition={{ duration: 0.3 }}
+                >
+                  <SwipeCard
+                    ref={swipeCardRef}
+                    key={currentTrack.id}
+                    track={currentTrack}
+                    onSwipe={handleSwipe}
+                    onMoreLikeThis={() => handleMoreLikeThis(currentTrack)}
+                    isPlaying={isPlaying}
+                    onTogglePlay={togglePlayPause}
+                    audioError={audioError}
+                    currentTime={currentTime}
+                    duration={duration}
+                    onSeek={handleSeekWithDragging}
+                    formatTime={formatTime}
+                    isDragging={isDragging}
+                  />
+                </motion.div>
+              )}
+              {!currentTrack && isFetchingNextPage && (
+                <motion.div
+                  key="loading-more"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  exit={{ opacity: 0 }}
+                  className="text-center"
+                >
+                  <LoadingAnimation />
+                  <p className="text-gray-300">Finding more tracks...</p>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        </div>
+
+        {/* Enhanced Footer with Glass Effect */}
+        <motion.div 
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.5 }}
+          className="p-6 text-center bg-white/5 backdrop-blur-xl border-t border-white/10"
+        >
+          <motion.p
+            className="text-sm text-gray-300 mb-2 font-medium"
+            animate={{ opacity: [0.7, 1, 0.7] }}
+            transition={{ duration: 3, repeat: Infinity }}
+          >
+            🎵 Based on: <span className="text-green-400">{seedName}</span>
+          </motion.p>
+          <p className="text-xs text-gray-500">
+            ✨ AI-powered recommendations
+          </p>
+
+          {/* Shortcut legend; touch screens drag the card instead */}
+          <div className="hidden md:flex flex-wrap justify-center gap-x-5 gap-y-2 mt-4 text-xs text-gray-400">
+            {KEYBOARD_SHORTCUTS.map(shortcut => (
+              <span key={shortcut.keys} className="flex items-center gap-2">
+                <kbd className="bg-white/10 border border-white/20 rounded-md px-2 py-0.5 font-mono text-gray-200">
+                  {shortcut.keys}
+                </kbd>
+                {shortcut.action}
+              </span>
+            ))}
+          </div>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
+
+// Swipe Card Component
+function SwipeCard({ 
+  ref,
+  track, 
+  onSwipe, 
+  onMoreLikeThis,
+  isPlaying, 
+  onTogglePlay, 
+  audioError,
+  currentTime,
+  duration,
+  onSeek,
+  formatTime,
+  isDragging
+}: { 
+  ref?: React.Ref<SwipeCardHandle>;
+  track: Track; 
+  onSwipe: (direction: SwipeDirection) => void;
+  onMoreLikeThis: () => void;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  audioError: string | null;
+  currentTime: number;
+  duration: number;
+  onSeek: (time: number, dragging: boolean) => void;
+  formatTime: (time: number) => string;
+  isDragging: boolean;
+}) {
+  const [exitDirection, setExitDirection] = useState<SwipeDirection | null>(null);
+  const wasDraggedRef = useRef(false);
+  const dragControls = useDragControls();
+
+  // Tilt and like/pass/super/maybe tint follow the drag
+  const x = useMotionValue(0);
+  const y = useMotionValue(0);
+  // y also carries the entry slide and hover lift, so the vertical stamps follow the drag offset alone
+  const dragY = useMotionValue(0);
+  const rotate = useTransform(x, [-SWIPE_OFFSET_THRESHOLD * 2, SWIPE_OFFSET_THRESHOLD * 2], [-15, 15]);
+  const likeOpacity = useTransform(x, [0, SWIPE_OFFSET_THRESHOLD], [0, 1]);
+  const passOpacity = useTransform(x, [-SWIPE_OFFSET_THRESHOLD, 0], [1, 0]);
+  const superOpacity = useTransform(dragY, [-SWIPE_OFFSET_THRESHOLD, 0], [1, 0]);
+  const maybeOpacity = useTransform(dragY, [0, SWIPE_OFFSET_THRESHOLD], [0, 1]);
+
+  const handleSwipe = (direction: SwipeDirection) => {
+    if (exitDirection) return; // Already on its way out
+    setExitDirection(direction);
+    // Keyboard and button swipes show their stamp on the way out, as a drag would
+    if (direction === "up" || direction === "down") {
+      animate(dragY, direction === "up" ? -SWIPE_OFFSET_THRESHOLD : SWIPE_OFFSET_THRESHOLD, { duration: 0.15 });
+    }
+    setTimeout(() => onSwipe(direction), 150);
+  };
+
+  useImperativeHandle(ref, () => ({ swipe: handleSwipe }));
+
+  // A fast flick commits even when short; a slow drag has to pass the offset threshold.
+  // The axis the card travelled further along decides between like/pass and super like/maybe
+  const handleDragEnd = (_event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => {
+    const { offset, velocity } = info;
+    let direction: SwipeDirection | null = null;
+
+    if (Math.abs(offset.x) >= Math.abs(offset.y)) {
+      if (offset.x > SWIPE_OFFSET_THRESHOLD || (velocity.x > SWIPE_VELOCITY_THRESHOLD && offset.x > 0)) {
+        direction = "right";
+      } else if (offset.x < -SWIPE_OFFSET_THRESHOLD || (velocity.x < -SWIPE_VELOCITY_THRESHOLD && offset.x < 0)) {
+        direction = "left";
+      }
+    } else if (offset.y < -SWIPE_OFFSET_THRESHOLD || (velocity.y < -SWIPE_VELOCITY_THRESHOLD && offset.y < 0)) {
+      direction = "up";
+    } else if (offset.y > SWIPE_OFFSET_THRESHOLD || (velocity.y > SWIPE_VELOCITY_THRESHOLD && offset.y > 0)) {
+      direction = "down";
+    }
+
+    if (direction) {
+      handleSwipe(direction);
+    } else {
+      animate(dragY, 0, { duration: 0.2 }); // Fade the stamp as the card springs back
+    }
+  };
+
+  return (
+    <motion.div
+      drag={!exitDirection}
+      dragControls={dragControls}
+      dragListener={false}
+      dragConstraints={{ left: 0, right: 0, top: 0, bottom: 0 }}
+      dragElastic={0.8}
+      onPointerDown={(e) => {
+        wasDraggedRef.current = false;
+        // The player's seek bar and buttons keep their own pointer handling
+        if (!(e.target as HTMLElement).closest("[data-no-drag]")) {
+          dragControls.start(e);
+        }
+      }}
+      onDragStart={() => { wasDraggedRef.current = true; }}
+      onDrag={(_event, info) => dragY.set(info.offset.y)}
+      onDragEnd={handleDragEnd}
+      style={{ x, y, rotate }}
+      initial={{ opacity: 0, scale: 0.8, y: 50 }}
+      animate={{ opacity: 1, scale: 1, y: 0 }}
+      exit={{ 
+        opacity: 0, 
+        scale: 0.8, 
+        x: exitDirection === "left" ? -300 : exitDirection === "right" ? 300 : 0,
+        y: exitDirection === "up" ? -300 : exitDirection === "down" ? 300 : exitDirection ? 20 : 50,
+        rotate: exitDirection === "left" ? -15 : exitDirection === "right" ? 15 : 0
+      }}
+      transition={{ 
+        duration: 0.4, 
+        ease: [0.25, 0.46, 0.45, 0.94],
+        type: "spring",
+        stiffness: 100
+      }}
+      whileHover={{ scale: 1.02, y: -5 }}
+      whileDrag={{ scale: 1.03, cursor: "grabbing" }}
+      className="relative bg-white/10 backdrop-blur-2xl rounded-3xl p-8 shadow-2xl border border-white/20 overflow-hidden group cursor-grab touch-none"
+    >
+      {/* Drag feedback */}
+      <motion.div
+        style={{ opacity: likeOpacity }}
+        className="absolute top-6 left-6 z-20 rotate-[-12deg] border-4 border-green-400 text-green-400 font-black text-2xl px-4 py-1 rounded-xl pointer-events-none"
+      >
+        LIKE
+      </motion.div>
+      <motion.div
+        style={{ opacity: passOpacity }}
+        className="absolute top-6 right-6 z-20 rotate-[12deg] border-4 border-red-400 text-red-400 font-black text-2xl px-4 py-1 rounded-xl pointer-events-none"
+      >
+        PASS
+      </motion.div>
+      <motion.div
+        style={{ opacity: superOpacity }}
+        className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 border-4 border-yellow-300 text-yellow-300 font-black text-2xl px-4 py-1 rounded-xl pointer-events-none"
+      >
+        SUPER
+      </motion.div>
+      <motion.div
+        style={{ opacity: maybeOpacity }}
+        className="absolute top-6 left-1/2 -translate-x-1/2 z-20 border-4 border-blue-300 text-blue-300 font-black text-2xl px-4 py-1 rounded-xl pointer-events-none"
+      >
+        MAYBE
+      </motion.div>
+
+      {/* Enhanced glass shine effects */}
+      <div className="absolute inset-0 bg-gradient-to-br from-white/20 via-transparent to-transparent opacity-60 group-hover:opacity-80 transition-opacity duration-300" />
+      <div className="absolute top-0 left-0 w-full h-px bg-gradient-to-r from-transparent via-white/40 to-transparent" />
+      <div className="absolute -top-10 -right-10 w-20 h-20 bg-gradient-to-br from-green-400/30 to-emerald-500/20 rounded-full blur-xl opacity-50 group-hover:opacity-70 transition-opacity duration-300" />
+      
+      <div className="relative z-10">
+      {/* Album Art with Spotify Link */}
+      <div className="relative mb-6">
+        <motion.div 
+          className="aspect-square rounded-2xl overflow-hidden shadow-2xl cursor-pointer relative group"
+          onClick={() => {
+            // Releasing a drag over the artwork shouldn't open Spotify
+            if (!wasDraggedRef.current) window.open(track.external_urls.spotify, '_blank');
+          }}
+          whileHover={{ scale: 1.02 }}
+          transition={{ duration: 0.2 }}
+        >
+          <motion.img
+            src={track.image}
+            alt={track.album}
+            className="w-full h-full object-cover transition-all duration-300 group-hover:blur-sm group-hover:scale-105"
+          />
+          {/* Spotify Icon Overlay */}
+          <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300 bg-black/30">
+            <div className="bg-green-500 p-4 rounded-full shadow-xl transform scale-0 group-hover:scale-100 transition-transform duration-300">
+              <svg className="w-8 h-8 text-white" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M12 0C5.4 0 0 5.4 0 12s5.4 12 12 12 12-5.4 12-12S18.66 0 12 0zm5.521 17.34c-.24.359-.66.48-1.021.24-2.82-1.74-6.36-2.101-10.561-1.141-.418.122-.84-.179-.84-.6 0-.359.24-.66.54-.78 4.56-1.021 8.52-.6 11.64 1.32.42.18.479.659.242 1.021zm1.44-3.3c-.301.42-.841.6-1.262.3-3.239-1.98-8.159-2.58-11.939-1.38-.479.12-1.02-.12-1.14-.6-.12-.48.12-1.021.6-1.141C9.6 9.9 15 10.561 18.72 12.84c.361.181.54.78.241 1.2zm.12-3.36C15.24 8.4 8.82 8.16 5.16 9.301c-.6.179-1.2-.181-1.38-.721-.18-.601.18-1.2.72-1.381 4.26-1.26 11.28-1.02 15.721 1.621.539.3.719 1.02.42 1.56-.299.421-1.02.599-1.559.3z"/>
+              </svg>
+            </div>
+          </div>
+        </motion.div>
+        {track.similarity && (
+          <div className="absolute -top-2 -right-2 bg-green-400 text-black px-3 py-1 rounded-full text-xs font-bold shadow-lg">
+            {Math.round(track.similarity * 100)}%
+          </div>
+        )}
+      </div>
+
+      {/* Track Info */}
+      <div className="text-center mb-8">
+        <h3 className="text-2xl font-bold mb-2 leading-tight">{track.name}</h3>
+        <p className="text-gray-300 text-lg mb-1">{track.artist}</p>
+        <p className="text-gray-500 text-sm">{track.album}</p>
+        
+        {/* Genres - Only show if available */}
+        {track.genres.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-4 justify-center">
+            {track.genres.slice(0, 2).map((genre, index) => (
+              <span 
+                key={index} 
+                className="text-xs bg-white/10 px-3 py-1 rounded-full text-gray-300 backdrop-blur-sm"
+              >
+                {genre}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Enhanced Audio Player with Liquid Glass */}
+      <div
+        data-no-drag
+        className="bg-white/5 backdrop-blur-xl rounded-2xl p-6 mb-6 border border-white/20 shadow-xl relative overflow-hidden group"
+      >
+        {/* Player lighter glow effect on hover */}
+        <div className="absolute inset-0 bg-gradient-to-br from-white/0 to-white/0 group-hover:from-white/5 group-hover:to-white/5 transition-all duration-300" />
+        <div className="relative z-10">
+          {/* Enhanced Progress Bar */}
+          <div className="mb-4">
+            <div className="flex items-center gap-3 text-sm text-gray-400 mb-2">
+              <span className="text-xs w-10 text-right font-medium">{formatTime(currentTime)}</span>
+              <div className="flex-1 relative">
+                <div className="h-2 bg-white/20 backdrop-blur-sm rounded-full border border-white/10 overflow-hidden">
+                  <motion.div 
+                    className="h-full bg-gradient-to-r from-green-400 to-emerald-500 rounded-full relative"
+                    style={{ width: `${duration ? (currentTime / duration) * 100 : 0}%` }}
+                    transition={{ duration: 0.1 }}
+                  >
+                    {/* Progress glow */}
+                    <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 blur-sm opacity-50" />
+                  </motion.div>
+                </div>
+              <input
+                type="range"
+                min="0"
+                max={duration || 0}
+                value={currentTime}
+                onChange={(e) => {
+                  const seekTime = parseFloat(e.target.value);
+                  onSeek(seekTime, true);
+                }}
+                onMouseUp={(e) => {
+                  const seekTime = parseFloat(e.currentTarget.value);
+                  onSeek(seekTime, false);
+                }}
+                className="absolute inset-0 w-full h-1 opacity-0 cursor-pointer"
+                disabled={!track.stream_url}
+              />
+            </div>
+              <span className="text-xs w-10 font-medium">{formatTime(duration)}</span>
+            </div>
+          </div>
+        </div>
+
+        {/* Enhanced Control Buttons with Glass Effect */}
+        <div className="flex justify-center items-center gap-6 relative z-10">
+          <motion.button
+            onClick={() => handleSwipe("left")}
+            whileHover={{ scale: 1.1, y: -2 }}
+            whileTap={{ scale: 0.95 }}
+            className="bg-white/10 hover:bg-red-500/30 text-white w-14 h-14 rounded-full flex items-center justify-center transition-all duration-300 backdrop-blur-xl border border-white/20 hover:border-red-400/50 shadow-xl group relative overflow-hidden"
+          >
+            {/* Button glow effect */}
+            <div className="absolute inset-0 bg-gradient-to-br from-red-400/0 to-red-500/0 group-hover:from-red-400/20 group-hover:to-red-500/20 rounded-full transition-all duration-300" />
+            <svg className="w-6 h-6 relative z-10" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </motion.button>
+          
+          <motion.button
+            onClick={onTogglePlay}
+            whileHover={{ scale: track.stream_url ? 1.1 : 1, y: track.stream_url ? -2 : 0 }}
+            whileTap={{ scale: track.stream_url ? 0.95 : 1 }}
+            className={`text-white w-16 h-16 rounded-full flex items-center justify-center transition-all duration-300 shadow-xl border-2 relative overflow-hidden group ${
+              track.stream_url
+                ? 'bg-white/10 hover:bg-white/20 border-white/20 hover:border-white/40 backdrop-blur-xl' 
+                : 'bg-gray-600/20 cursor-not-allowed border-gray-600/50 backdrop-blur-xl'
+            }`}
+            disabled={!track.stream_url}
+          >
+            {/* Play button subtle glow effect */}
+            {track.stream_url && (
+              <div className="absolute inset-0 bg-gradient-to-br from-white/0 to-white/0 group-hover:from-white/10 group-hover:to-white/10 rounded-full transition-all duration-300" />
+            )}
+            <div className="relative z-10 flex items-center justify-center w-full h-full">
+              {!track.stream_url ? (
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728L5.636 5.636m12.728 12.728L18.364 5.636M5.636 18.364l12.728-12.728" />
+                </svg>
+              ) : isPlaying ? (
+                <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
+                  <path d="M6 4h4v16H6V4zm8 0h4v16h-4V4z"/>
+                </svg>
+              ) : (
+                <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24" style={{ marginLeft: '2px' }}>
+                  <path d="M8 5v14l11-7z"/>
+                </svg>
+              )}
+            </div>
+          </motion.button>
+          
+          <motion.button
+            onClick={() => handleSwipe("right")}
+            whileHover={{ scale: 1.1, y: -2 }}
+            whileTap={{ scale: 0.95 }}
+            className="bg-white/10 hover:bg-green-500/30 text-white w-14 h-14 rounded-full flex items-center justify-center transition-all duration-300 backdrop-blur-xl border border-white/20 hover:border-green-400/50 shadow-xl group relative overflow-hidden"
+          >
+            {/* Like button glow effect */}
+            <div className="absolute inset-0 bg-gradient-to-br from-green-400/0 to-emerald-500/0 group-hover:from-green-400/20 group-hover:to-emerald-500/20 rounded-full transition-all duration-300" />
+            <svg className="w-6 h-6 relative z-10" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+            </svg>
+          </motion.button>
+        </div>
+
+        {/* Super like / maybe */}
+        <div className="flex justify-center gap-3 mt-4 relative z-10">
+          <button
+            onClick={() => handleSwipe("down")}
+            className="text-xs text-gray-300 bg-white/5 hover:bg-blue-500/20 px-3 py-1.5 rounded-full border border-white/10 hover:border-blue-400/40 transition-colors"
+          >
+            🤔 Maybe
+          </button>
+          <button
+            onClick={() => handleSwipe("up")}
+            className="text-xs text-gray-300 bg-white/5 hover:bg-yellow-500/20 px-3 py-1.5 rounded-full border border-white/10 hover:border-yellow-400/40 transition-colors"
+          >
+            ⭐ Super like
+          </button>
+          <button
+            onClick={onMoreLikeThis}
+            className="text-xs text-gray-300 bg-white/5 hover:bg-purple-500/20 px-3 py-1.5 rounded-full border border-white/10 hover:border-purple-400/40 transition-colors"
+            title="Start a new deck from this track"
+          >
+            🔁 More like this
+          </button>
+        </div>
+
+          {/* Audio Error */}
+          {audioError && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: "auto" }}
+              className="mt-4 text-xs text-red-400 text-center bg-red-500/10 backdrop-blur-xl px-4 py-3 rounded-xl border border-red-400/20"
+            >
+              {audioError}
+            </motion.div>
+          )}
+        </div>
+
+        {/* Enhanced Track Details */}
+        <div className="flex justify-center gap-4 text-xs text-gray-400 font-medium">
+          <span>{track.year}</span>
+          <span>•</span>
+          <span>{track.popularity}% popular</span>
+          {track.deezer_id && <span>• 🎵 Deezer</span>}
+          {track.apple_music_id && <span>• 🍎 Apple Music</span>}
+        </div>
+      </div>
+
+    </motion.div>
+  );
+}
+
+function handleOpenInSpotify(url: string) {
+  window.open(url, '_blank');
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { DiscoverDeck } from "@/app/discover/_components/discover-deck";
+
+// Swipe session seeded by an album's tracks
+export default function DiscoverAlbumPage() {
+  const params = useParams();
+  const albumId = params.albumId as string;
+
+  return <DiscoverDeck key={albumId} seed={{ type: "album", id: albumId }} />;
+}
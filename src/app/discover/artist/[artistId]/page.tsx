@@ -0,0 +1,12 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { DiscoverDeck } from "@/app/discover/_components/discover-deck";
+
+// Swipe session seeded by an artist's top tracks
+export default function DiscoverArtistPage() {
+  const params = useParams();
+  const artistId = params.artistId as string;
+
+  return <DiscoverDeck key={artistId} seed={{ type: "artist", id: artistId }} />;
+}
@@ -0,0 +1,12 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { DiscoverDeck } from "@/app/discover/_components/discover-deck";
+
+// Swipe session blending several playlists, e.g. /discover/blend/{id},{id}
+export default function DiscoverBlendPage() {
+  const params = useParams();
+  const playlistIds = decodeURIComponent(params.playlistIds as string).split(",");
+
+  return <DiscoverDeck key={playlistIds.join(",")} seed={{ type: "blend", playlistIds }} />;
+}
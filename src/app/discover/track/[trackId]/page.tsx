@@ -0,0 +1,12 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { DiscoverDeck } from "@/app/discover/_components/discover-deck";
+
+// Swipe session seeded by a single track, e.g. from a card's "more like this"
+export default function DiscoverTrackPage() {
+  const params = useParams();
+  const trackId = params.trackId as string;
+
+  return <DiscoverDeck key={trackId} seed={{ type: "track", id: trackId }} />;
+}
@@ -3,6 +3,8 @@
 import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { motion, useScroll, useTransform, useSpring, AnimatePresence } from "framer-motion";
+import { getDeckPath, parseSpotifyUrl } from "@/lib/spotifyUrl";
+import { api } from "@/trpc/react";
 
 // Liquid Glass Background Component
 function LiquidGlassBackground() {
@@ -163,6 +165,7 @@ export default function HomePage() {
   const [error, setError] = useState("");
   const [isHovered, setIsHovered] = useState(false);
   const router = useRouter();
+  const utils = api.useUtils();
   const containerRef = useRef<HTMLDivElement>(null);
   
   const { scrollYProgress } = useScroll({
@@ -174,33 +177,21 @@ export default function HomePage() {
   const titleY = useSpring(useTransform(scrollYProgress, [0, 0.5], [0, -50]), springConfig);
   const titleScale = useSpring(useTransform(scrollYProgress, [0, 0.5], [1, 0.8]), springConfig);
 
-  const validateSpotifyUrl = (url: string) => {
-    const spotifyPlaylistRegex = /^https:\/\/open\.spotify\.com\/playlist\/([a-zA-Z0-9]+)(\?.*)?$/;
-    return spotifyPlaylistRegex.test(url);
-  };
-
-  const extractPlaylistId = (url: string) => {
-    const match = /playlist\/([a-zA-Z0-9]+)/.exec(url);
-    return match ? match[1] : null;
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
     setIsLoading(true);
 
     try {
-      if (!validateSpotifyUrl(playlistUrl)) {
-        throw new Error("Please enter a valid Spotify playlist URL");
+      if (!parseSpotifyUrl(playlistUrl)) {
+        throw new Error("Please enter a Spotify playlist, album, artist or track link");
       }
 
-      const playlistId = extractPlaylistId(playlistUrl);
-      if (!playlistId) {
-        throw new Error("Could not extract playlist ID from URL");
-      }
+      // The server parses the link the same way and checks that it exists
+      const resource = await utils.recommendations.resolveLink.fetch({ url: playlistUrl });
 
-      // Navigate to the discover page with the playlist ID
-      router.push(`/discover/${playlistId}`);
+      // Each kind of link opens its own discovery deck
+      router.push(getDeckPath(resource));
     } catch (err) {
       setError(err instanceof Error ? err.message : "Something went wrong");
     } finally {
@@ -309,7 +300,7 @@ export default function HomePage() {
                   htmlFor="playlist-url"
                   className="block text-lg font-medium text-gray-200 mb-3"
                 >
-                  🎵 Spotify Playlist URL
+                  🎵 Spotify Playlist, Album, Artist or Track Link
                 </motion.label>
                 
                 <motion.div
@@ -319,11 +310,11 @@ export default function HomePage() {
                   className="relative group"
                 >
                   <input
-                    type="url"
+                    type="text"
                     id="playlist-url"
                     value={playlistUrl}
                     onChange={(e) => setPlaylistUrl(e.target.value)}
-                    placeholder="https://open.spotify.com/playlist/..."
+                    placeholder="https://open.spotify.com/playlist/... or spotify:album:..."
                     className="w-full px-6 py-4 bg-white/5 backdrop-blur-xl border border-white/20 rounded-2xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-green-400/50 focus:border-green-400/50 transition-all duration-300 text-lg group-hover:bg-white/10"
                     required
                   />
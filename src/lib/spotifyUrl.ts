@@ -0,0 +1,90 @@
+/**
+ * Spotify Links
+ * Parses the links people paste into the resource they point at. Shared by the home page
+ * and the server, so both accept the same forms:
+ *   https://open.spotify.com/playlist/{id}?si=...
+ *   open.spotify.com/intl-de/album/{id} (locale prefix, no scheme)
+ *   https://open.spotify.com/embed/track/{id}
+ *   https://open.spotify.com/user/{name}/playlist/{id} (legacy)
+ *   spotify:artist:{id} and spotify:user:{name}:playlist:{id}
+ */
+
+export const SPOTIFY_RESOURCE_TYPES = ['playlist', 'album', 'artist', 'track'] as const;
+export type SpotifyResourceType = typeof SPOTIFY_RESOURCE_TYPES[number];
+
+export interface SpotifyResource {
+  type: SpotifyResourceType;
+  id: string; // 22-character base-62 Spotify ID
+}
+
+// What a discovery deck is built from: one resource, or several playlists blended together
+export type DeckSeed = SpotifyResource | { type: 'blend'; playlistIds: string[] };
+
+const SPOTIFY_WEB_HOSTS = new Set(['open.spotify.com', 'play.spotify.com']);
+const SPOTIFY_ID_PATTERN = /^[A-Za-z0-9]{22}$/;
+const LOCALE_SEGMENT_PATTERN = /^intl-[a-z]{2}(-[a-z]{2})?$/i;
+
+export function isSpotifyResourceType(value: string): value is SpotifyResourceType {
+  return (SPOTIFY_RESOURCE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * The playlist, album, artist or track a link or URI points at; null for anything else
+ */
+export function parseSpotifyUrl(input: string): SpotifyResource | null {
+  const value = input.trim();
+  const segments = /^spotify:/i.test(value)
+    ? value.split(':').slice(1)
+    : getWebPathSegments(value);
+
+  if (!segments) return null;
+
+  // Skip the locale, embed and legacy user prefixes, leaving <type>/<id>
+  let rest = segments;
+  if (LOCALE_SEGMENT_PATTERN.test(rest[0] ?? '')) rest = rest.slice(1);
+  if (rest[0] === 'embed') rest = rest.slice(1);
+  if (rest[0] === 'user' && rest.length === 4) rest = rest.slice(2);
+
+  const [type, id] = rest;
+  if (rest.length !== 2 || !type || !id) return null;
+
+  const normalizedType = type.toLowerCase();
+  if (!isSpotifyResourceType(normalizedType) || !SPOTIFY_ID_PATTERN.test(id)) return null;
+
+  return { type: normalizedType, id };
+}
+
+/**
+ * App route of the discovery deck built from a seed
+ */
+export function getDeckPath(seed: DeckSeed): string {
+  if (seed.type === 'blend') return `/discover/blend/${seed.playlistIds.join(',')}`;
+
+  return seed.type === 'playlist'
+    ? `/discover/${seed.id}`
+    : `/discover/${seed.type}/${seed.id}`;
+}
+
+/**
+ * ID swipes on a seed's deck are stored under: the playlist ID for playlist decks,
+ * "<type>:<id>" (e.g. "album:...") for decks seeded by another resource, and
+ * "blend:<ids>" with the playlist IDs sorted, so a blend's order doesn't matter
+ */
+export function getDeckSourceId(seed: DeckSeed): string {
+  if (seed.type === 'blend') return `blend:${[...seed.playlistIds].sort().join(',')}`;
+
+  return seed.type === 'playlist' ? seed.id : `${seed.type}:${seed.id}`;
+}
+
+function getWebPathSegments(value: string): string[] | null {
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    return null;
+  }
+
+  if (!SPOTIFY_WEB_HOSTS.has(url.hostname.toLowerCase())) return null;
+
+  return url.pathname.split('/').filter(Boolean);
+}
@@ -1,5 +1,7 @@
+import { authRouter } from "@/server/api/routers/auth";
 import { recommendationsRouter } from "@/server/api/routers/recommendations";
 import { playlistsRouter } from "@/server/api/routers/playlists";
+import { swipesRouter } from "@/server/api/routers/swipes";
 import { createCallerFactory, createTRPCRouter } from "@/server/api/trpc";
 
 /**
@@ -10,6 +12,8 @@ import { createCallerFactory, createTRPCRouter } from "@/server/api/trpc";
 export const appRouter = createTRPCRouter({
   recommendations: recommendationsRouter,
   playlists: playlistsRouter,
+  auth: authRouter,
+  swipes: swipesRouter,
 });
 
 // export type definition of API
@@ -0,0 +1,8 @@
+import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
+
+export const authRouter = createTRPCRouter({
+  // Current Spotify session, or null when signed out
+  getSession: publicProcedure.query(({ ctx }) => {
+    return ctx.session;
+  }),
+});
@@ -1,34 +1,85 @@
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
-
-// For now, we'll need your Spotify account credentials
-// You'll provide these when we set up the system
-const SPOTIFY_CLIENT_ID = process.env.SPOTIFY_CLIENT_ID!;
-const SPOTIFY_CLIENT_SECRET = process.env.SPOTIFY_CLIENT_SECRET!;
-
-// This will be your personal refresh token (we'll get this from you)
-const SPOTIFY_REFRESH_TOKEN = process.env.SPOTIFY_REFRESH_TOKEN!;
-
-// Get your personal Spotify access token
-async function getPersonalSpotifyAccessToken() {
-  const response = await fetch('https://accounts.spotify.com/api/token', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-      'Authorization': `Basic ${Buffer.from(`${SPOTIFY_CLIENT_ID}:${SPOTIFY_CLIENT_SECRET}`).toString('base64')}`,
-    },
-    body: new URLSearchParams({
-      grant_type: 'refresh_token',
-      refresh_token: SPOTIFY_REFRESH_TOKEN,
-    }),
-  });
+import { createTRPCRouter, protectedProcedure, publicProcedure } from "@/server/api/trpc";
+import { getSpotifyAccessToken, SpotifyReauthRequiredError } from "@/server/auth";
+import { PlaylistCreationConflictError, playlistCreationService } from "@/server/services/playlistCreation";
+import { playlistComparisonService } from "@/server/services/playlistComparison";
+import { MAX_SMOOTH_TRACKS, PLAYLIST_ORDERS, playlistSequencingService } from "@/server/services/playlistSequencing";
+import { songIngestionService } from "@/server/services/songIngestion";
+import { SpotifyApiError, spotifyClient } from "@/server/services/spotifyClient";
+import { vectorSearchService } from "@/server/services/vectorSearch";
+
+interface SpotifyPlaylist {
+  id: string;
+  name: string;
+  description: string | null;
+  collaborative: boolean;
+  public: boolean | null;
+  tracks: { total: number };
+  external_urls: { spotify: string };
+}
+
+interface SpotifyPlaylistSummary extends SpotifyPlaylist {
+  owner: { id: string; display_name: string | null };
+  images: Array<{ url: string }> | null;
+}
 
-  if (!response.ok) {
-    throw new Error('Failed to get personal Spotify access token');
+interface SpotifyPaging<T> {
+  items: T[];
+  total: number;
+  next: string | null;
+}
+
+// Spotify's limit on tracks in one playlist
+const MAX_PLAYLIST_TRACKS = 10_000;
+const PLAYLIST_TRACKS_PAGE_SIZE = 100;
+const USER_PLAYLISTS_PAGE_SIZE = 50;
+const MAX_USER_PLAYLISTS = 500;
+
+// Signed-in user's Spotify token; a revoked login surfaces as UNAUTHORIZED so the client can reconnect
+async function getUserAccessToken(userId: string): Promise<string> {
+  try {
+    return await getSpotifyAccessToken(userId);
+  } catch (error) {
+    if (error instanceof SpotifyReauthRequiredError) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: error.message });
+    }
+    throw error;
   }
+}
 
-  const data = await response.json();
-  return data.access_token;
+// Surface Spotify write failures as errors the client can act on
+function toPlaylistWriteError(error: unknown): unknown {
+  if (error instanceof PlaylistCreationConflictError) {
+    return new TRPCError({ code: 'CONFLICT', message: error.message });
+  }
+  if (error instanceof SpotifyApiError && error.status === 403) {
+    return new TRPCError({ code: 'FORBIDDEN', message: 'You can\'t edit this playlist' });
+  }
+  if (error instanceof SpotifyApiError) {
+    return new Error('Failed to save tracks to Spotify');
+  }
+  return error;
+}
+
+// IDs of every track already in a playlist (local files and episodes have no track ID)
+async function getPlaylistTrackIds(playlistId: string, accessToken: string): Promise<Set<string>> {
+  const trackIds = new Set<string>();
+
+  for (let offset = 0; ; offset += PLAYLIST_TRACKS_PAGE_SIZE) {
+    const page = await spotifyClient.request<SpotifyPaging<{ track: { id: string | null } | null }>>(
+      `/playlists/${playlistId}/tracks?fields=items(track(id)),total,next&limit=${PLAYLIST_TRACKS_PAGE_SIZE}&offset=${offset}`,
+      { accessToken }
+    );
+
+    for (const item of page.items) {
+      if (item.track?.id) trackIds.add(item.track.id);
+    }
+
+    if (!page.next) break;
+  }
+
+  return trackIds;
 }
 
 // Playlist creation response
@@ -37,115 +88,153 @@ const PlaylistCreationResponseSchema = z.object({
   playlistUrl: z.string(),
   name: z.string(),
   trackCount: z.number(),
+  coverUploaded: z.boolean(),
 });
 
 export const playlistsRouter = createTRPCRouter({
-  create: publicProcedure
+  create: protectedProcedure
     .input(z.object({
       name: z.string().min(1).max(100),
       description: z.string().max(300).optional(),
-      trackIds: z.array(z.string()).min(1).max(100),
+      // Retrying with the same key resumes the earlier attempt instead of creating another playlist
+      clientKey: z.string().min(1).max(100),
+      trackIds: z.array(z.string()).min(1).max(MAX_PLAYLIST_TRACKS),
+      visibility: z.enum(['public', 'private', 'collaborative']).default('collaborative'),
+      coverImage: z.boolean().default(false), // Upload a mosaic of the tracks' album art
+      order: z.enum(PLAYLIST_ORDERS).default('liked'),
+      pinnedTrackIds: z.array(z.string()).max(MAX_PLAYLIST_TRACKS).default([]), // Kept first, e.g. super likes
     }))
     .output(PlaylistCreationResponseSchema)
-    .mutation(async ({ input }) => {
-      const accessToken = await getPersonalSpotifyAccessToken();
-      
-      // Step 1: Get your Spotify user ID
-      const userResponse = await fetch('https://api.spotify.com/v1/me', {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-        },
+    .mutation(async ({ ctx, input }) => {
+      const accessToken = await getUserAccessToken(ctx.session.user.id);
+
+      try {
+        return await playlistCreationService.create(ctx.session.user.id, accessToken, {
+          ...input,
+          description: input.description ?? `AI-generated playlist with ${input.trackIds.length} tracks - Created by Spwipe`,
+        });
+      } catch (error) {
+        throw toPlaylistWriteError(error);
+      }
+    }),
+
+  // Preview the order playlists.create would save tracks in, with key/tempo/energy per transition
+  // Public, so capped at what one smooth sequencing pass handles; longer saves aren't previewed
+  sequence: publicProcedure
+    .input(z.object({
+      trackIds: z.array(z.string()).min(1).max(MAX_SMOOTH_TRACKS),
+      order: z.enum(PLAYLIST_ORDERS).default('smooth'),
+      pinnedTrackIds: z.array(z.string()).max(MAX_SMOOTH_TRACKS).default([]),
+    }))
+    .query(async ({ input }) => {
+      return playlistSequencingService.sequence(input.trackIds, input.order, input.pinnedTrackIds);
+    }),
+
+  // Other curators' playlists that Spwipe has analyzed, nearest to this one
+  findSimilar: publicProcedure
+    .input(z.object({
+      playlistId: z.string(),
+      limit: z.number().min(1).max(50).default(10),
+    }))
+    .query(async ({ input }) => {
+      const source = await songIngestionService.getPlaylistAnalysis(input.playlistId)
+        ?? (await songIngestionService.ingestPlaylist(input.playlistId)).playlistAnalysis;
+
+      const similar = await vectorSearchService.findSimilarPlaylists(source.spotifyPlaylistId, input.limit);
+
+      return similar.map(playlist => {
+        const { sharedGenres, differingTraits } = playlistComparisonService.compareTraits(source, playlist);
+
+        return {
+          id: playlist.spotifyPlaylistId,
+          name: playlist.name,
+          description: playlist.description,
+          trackCount: playlist.trackCount,
+          url: `https://open.spotify.com/playlist/${playlist.spotifyPlaylistId}`,
+          similarity: Math.max(0, playlist.similarity),
+          sharedGenres,
+          differingTraits,
+          summary: playlistComparisonService.summarizeDifferences(source, playlist), // e.g. "more energetic, less acoustic"
+        };
       });
+    }),
 
-      if (!userResponse.ok) {
-        throw new Error('Failed to get user info');
+  // Add tracks to an existing playlist the user can edit, skipping ones it already has
+  appendTracks: protectedProcedure
+    .input(z.object({
+      playlistId: z.string(),
+      trackIds: z.array(z.string()).min(1).max(MAX_PLAYLIST_TRACKS),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const accessToken = await getUserAccessToken(ctx.session.user.id);
+
+      let playlist: SpotifyPlaylist;
+      try {
+        playlist = await spotifyClient.request<SpotifyPlaylist>(
+          `/playlists/${input.playlistId}?fields=id,name,description,collaborative,public,tracks(total),external_urls`,
+          { accessToken }
+        );
+      } catch (error) {
+        if (error instanceof SpotifyApiError && error.status === 404) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Playlist not found' });
+        }
+        throw error;
       }
 
-      const userData = await userResponse.json();
-      const userId = userData.id;
-
-      // Step 2: Create a new collaborative playlist
-      const playlistResponse = await fetch(
-        `https://api.spotify.com/v1/users/${userId}/playlists`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            name: input.name,
-            description: input.description || `AI-generated playlist with ${input.trackIds.length} tracks - Created by Spwipe`,
-            public: false,
-            collaborative: true,
-          }),
-        }
-      );
+      const existingTrackIds = await getPlaylistTrackIds(input.playlistId, accessToken);
+      const newTrackIds = [...new Set(input.trackIds)].filter(id => !existingTrackIds.has(id));
 
-      if (!playlistResponse.ok) {
-        throw new Error('Failed to create playlist');
+      try {
+        await playlistCreationService.addTracks(input.playlistId, newTrackIds, accessToken);
+      } catch (error) {
+        throw toPlaylistWriteError(error);
       }
 
-      const playlistData = await playlistResponse.json();
+      return {
+        playlistId: playlist.id,
+        playlistUrl: playlist.external_urls.spotify,
+        name: playlist.name,
+        addedCount: newTrackIds.length,
+        skippedCount: input.trackIds.length - newTrackIds.length,
+      };
+    }),
 
-      // Step 3: Add tracks to the playlist
-      const trackUris = input.trackIds.map(id => `spotify:track:${id}`);
-      
-      // Add tracks in batches of 100 (Spotify API limit)
-      const batchSize = 100;
-      for (let i = 0; i < trackUris.length; i += batchSize) {
-        const batch = trackUris.slice(i, i + batchSize);
-        
-        const addTracksResponse = await fetch(
-          `https://api.spotify.com/v1/playlists/${playlistData.id}/tracks`,
-          {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${accessToken}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              uris: batch,
-            }),
-          }
+  // Playlists the user can add tracks to: ones they own plus collaborative ones they follow
+  listEditable: protectedProcedure
+    .query(async ({ ctx }) => {
+      const accessToken = await getUserAccessToken(ctx.session.user.id);
+      const userData = await spotifyClient.request<{ id: string }>('/me', { accessToken });
+
+      const playlists: SpotifyPlaylistSummary[] = [];
+      for (let offset = 0; offset < MAX_USER_PLAYLISTS; offset += USER_PLAYLISTS_PAGE_SIZE) {
+        const page = await spotifyClient.request<SpotifyPaging<SpotifyPlaylistSummary | null>>(
+          `/me/playlists?limit=${USER_PLAYLISTS_PAGE_SIZE}&offset=${offset}`,
+          { accessToken }
         );
 
-        if (!addTracksResponse.ok) {
-          console.error('Failed to add tracks batch:', batch);
-          throw new Error('Failed to add tracks to playlist');
-        }
+        playlists.push(...page.items.filter((item): item is SpotifyPlaylistSummary => item !== null));
+        if (!page.next) break;
       }
 
-      return {
-        playlistId: playlistData.id,
-        playlistUrl: playlistData.external_urls.spotify,
-        name: playlistData.name,
-        trackCount: input.trackIds.length,
-      };
+      return playlists
+        .filter(playlist => playlist.owner.id === userData.id || playlist.collaborative)
+        .map(playlist => ({
+          id: playlist.id,
+          name: playlist.name,
+          image: playlist.images?.[0]?.url ?? null,
+          trackCount: playlist.tracks.total,
+          ownerName: playlist.owner.display_name,
+        }));
     }),
 
   // Get playlist info (for verification)
-  getInfo: publicProcedure
+  getInfo: protectedProcedure
     .input(z.object({
       playlistId: z.string(),
     }))
-    .query(async ({ input }) => {
-      const accessToken = await getPersonalSpotifyAccessToken();
-      
-      const response = await fetch(
-        `https://api.spotify.com/v1/playlists/${input.playlistId}`,
-        {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error('Failed to get playlist info');
-      }
-
-      const data = await response.json();
+    .query(async ({ ctx, input }) => {
+      const accessToken = await getUserAccessToken(ctx.session.user.id);
+      const data = await spotifyClient.request<SpotifyPlaylist>(`/playlists/${input.playlistId}`, { accessToken });
       
       return {
         id: data.id,
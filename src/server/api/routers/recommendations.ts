@@ -1,32 +1,17 @@
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
+import { getDeckSourceId, parseSpotifyUrl, SPOTIFY_RESOURCE_TYPES } from "@/lib/spotifyUrl";
 import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
-
-// Spotify API client initialization
-const SPOTIFY_CLIENT_ID = process.env.SPOTIFY_CLIENT_ID!;
-const SPOTIFY_CLIENT_SECRET = process.env.SPOTIFY_CLIENT_SECRET!;
-
-// Get Spotify access token (client credentials flow)
-async function getSpotifyAccessToken() {
-  const response = await fetch('https://accounts.spotify.com/api/token', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-      'Authorization': `Basic ${Buffer.from(`${SPOTIFY_CLIENT_ID}:${SPOTIFY_CLIENT_SECRET}`).toString('base64')}`,
-    },
-    body: 'grant_type=client_credentials',
-  });
-
-  if (!response.ok) {
-    throw new Error('Failed to get Spotify access token');
-  }
-
-  const data = await response.json() as { access_token: string };
-  return data.access_token;
-}
-
+import { playlistClusteringService } from "@/server/services/playlistClustering";
+import { playlistComparisonService } from "@/server/services/playlistComparison";
+import { previewResolverService, type ResolvedPreview } from "@/server/services/previewResolver";
+import { songIngestionService } from "@/server/services/songIngestion";
+import { SpotifyApiError, spotifyClient } from "@/server/services/spotifyClient";
+import { swipeHistoryService } from "@/server/services/swipeHistory";
+import { vectorSearchService, type SimilarSong } from "@/server/services/vectorSearch";
 
 // Track data structure
-const TrackSchema = z.object({
+export const TrackSchema = z.object({
   id: z.string(),
   name: z.string(),
   artist: z.string(),
@@ -49,66 +34,103 @@ const TrackSchema = z.object({
 // Recommendation response structure
 const RecommendationResponseSchema = z.object({
   tracks: z.array(TrackSchema),
+  nextCursor: z.number().nullable(), // Pass back as `cursor` for the next page; null when exhausted
   originalPlaylist: z.object({
     id: z.string(),
     name: z.string(),
     description: z.string().nullable(),
     total_tracks: z.number(),
   }).optional(),
+  seedTrack: TrackSchema.optional(), // The track a song-seeded deck was built from
+  // The album or artist a deck was built from, with the seed tracks that have vectors
+  seedCollection: z.object({
+    type: z.enum(['album', 'artist']),
+    id: z.string(),
+    name: z.string(),
+    trackIds: z.array(z.string()),
+  }).optional(),
+  // Styles detected in a mixed playlist, largest first; empty for a single-style playlist
+  clusters: z.array(z.object({
+    genres: z.array(z.string()),
+    share: z.number(), // Fraction of the playlist's songs (0-1)
+    avgEnergy: z.number(),
+    avgValence: z.number(),
+  })).optional(),
 });
 
-// Search Deezer for track preview
-async function searchDeezerTrack(trackName: string, artistName: string): Promise<{ id: string; preview: string } | null> {
-  try {
-    const query = encodeURIComponent(`${trackName} ${artistName}`);
-    const response = await fetch(`https://api.deezer.com/search?q=${query}&limit=1`);
-    
-    if (!response.ok) return null;
-    
-    const data = await response.json() as { data: Array<{ id: string; preview: string }> };
-    const track = data.data?.[0];
-    
-    if (track?.preview) {
-      return {
-        id: String(track.id),
-        preview: track.preview,
-      };
-    }
-    
-    return null;
-  } catch (error) {
-    console.error('Deezer search failed:', error);
-    return null;
-  }
-}
+// Blend response: the shared deck plus how the blended playlists relate
+const BlendResponseSchema = z.object({
+  tracks: z.array(TrackSchema),
+  nextCursor: z.number().nullable(),
+  playlists: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().nullable(),
+    total_tracks: z.number(),
+    weight: z.number(),
+  })),
+  comparisons: z.array(z.object({
+    playlistIds: z.tuple([z.string(), z.string()]),
+    similarity: z.number(), // Cosine similarity of the playlist vectors
+    sharedGenres: z.array(z.string()),
+    sharedTraits: z.array(z.string()),
+    differingTraits: z.array(z.string()),
+  })),
+});
+
+const MAX_BLEND_PLAYLISTS = 5;
+
+// Spotify search results fetched per query, and the deepest offset search allows
+const SEARCH_PAGE_SIZE = 20;
+const SPOTIFY_SEARCH_MAX_OFFSET = 1000;
 
 export const recommendationsRouter = createTRPCRouter({
   getByPlaylist: publicProcedure
     .input(z.object({
       playlistId: z.string(),
       limit: z.number().min(1).max(100).default(50),
+      // "search" ranks Spotify search hits; "vector" ranks ingested songs by embedding similarity
+      mode: z.enum(['search', 'vector']).default('search'),
+      cursor: z.number().int().min(0).nullish(), // nextCursor of the previous page
     }))
     .output(RecommendationResponseSchema)
-    .query(async ({ input }) => {
-      const accessToken = await getSpotifyAccessToken();
-      
+    .query(async ({ ctx, input }) => {
+      // Tracks the listener already swiped on for this playlist are never served again
+      const owner = swipeHistoryService.getOwner(ctx.session?.user.id, ctx.anonymousId);
+      const judgedTrackIds = owner
+        ? await swipeHistoryService.getJudgedTrackIds(owner, input.playlistId)
+        : [];
+
+      if (input.mode === 'vector') {
+        try {
+          return await getVectorRecommendations(input.playlistId, input.limit, judgedTrackIds, input.cursor ?? 0);
+        } catch (error) {
+          console.error('Vector recommendation failed:', error);
+          throw new Error('Failed to generate recommendations: ' + (error instanceof Error ? error.message : 'Unknown error'));
+        }
+      }
+
       try {
         // Step 1: Analyze the input playlist to understand its characteristics
-        const playlistAnalysis = await analyzePlaylistCharacteristics(input.playlistId, accessToken);
+        const playlistAnalysis = await analyzePlaylistCharacteristics(input.playlistId);
         
         // Step 2: Generate diverse search queries based on playlist analysis
         const searchQueries = generateSmartSearchQueries(playlistAnalysis);
         
-        // Step 3: Search Spotify's catalog for similar songs
+        // Step 3: Search Spotify's catalog for similar songs, one page of search results further per cursor
+        const offset = input.cursor ?? 0;
         const recommendations = await searchSpotifyForRecommendations(
           searchQueries, 
-          accessToken, 
           input.limit,
-          playlistAnalysis
+          playlistAnalysis,
+          judgedTrackIds,
+          offset
         );
+        const nextOffset = offset + SEARCH_PAGE_SIZE;
 
         return {
           tracks: recommendations,
+          nextCursor: recommendations.length > 0 && nextOffset <= SPOTIFY_SEARCH_MAX_OFFSET ? nextOffset : null,
           originalPlaylist: {
             id: playlistAnalysis.id,
             name: playlistAnalysis.name,
@@ -122,6 +144,213 @@ export const recommendationsRouter = createTRPCRouter({
         throw new Error('Failed to generate recommendations: ' + (error instanceof Error ? error.message : 'Unknown error'));
       }
     }),
+
+  // Deck seeded by a single track: songs nearest its vector, ingesting the track first if needed
+  getBySong: publicProcedure
+    .input(z.object({
+      trackId: z.string(),
+      limit: z.number().min(1).max(100).default(50),
+      cursor: z.number().int().min(0).nullish(),
+    }))
+    .output(RecommendationResponseSchema)
+    .query(async ({ ctx, input }) => {
+      const owner = swipeHistoryService.getOwner(ctx.session?.user.id, ctx.anonymousId);
+      const judgedTrackIds = owner
+        ? await swipeHistoryService.getJudgedTrackIds(owner, getDeckSourceId({ type: 'track', id: input.trackId }))
+        : [];
+
+      try {
+        const [seedId] = await songIngestionService.ingestTracks([input.trackId]);
+        const seed = seedId ? await songIngestionService.getSong(seedId) : null;
+        if (!seed) {
+          throw new Error('Track not found or has no audio features');
+        }
+
+        const page = await vectorSearchService.findSongsLikeSongsPage([seed.spotifyId], {
+          limit: input.limit,
+          cursor: input.cursor ?? 0,
+          excludeIds: judgedTrackIds,
+        });
+
+        const tracks = await similarSongsToTracks(page.songs);
+
+        return {
+          tracks,
+          nextCursor: page.nextCursor,
+          seedTrack: (await similarSongsToTracks([{ ...seed, similarity: 1 }]))[0],
+        };
+      } catch (error) {
+        console.error('Song recommendation failed:', error);
+        throw new Error('Failed to generate recommendations: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      }
+    }),
+
+  // Deck seeded by an album's tracks or an artist's top tracks, ingested first if needed
+  getByCollection: publicProcedure
+    .input(z.object({
+      type: z.enum(['album', 'artist']),
+      id: z.string(),
+      limit: z.number().min(1).max(100).default(50),
+      cursor: z.number().int().min(0).nullish(),
+    }))
+    .output(RecommendationResponseSchema)
+    .query(async ({ ctx, input }) => {
+      const owner = swipeHistoryService.getOwner(ctx.session?.user.id, ctx.anonymousId);
+      const judgedTrackIds = owner
+        ? await swipeHistoryService.getJudgedTrackIds(owner, getDeckSourceId(input))
+        : [];
+
+      try {
+        const collection = await songIngestionService.fetchSeedCollection(input.type, input.id);
+        const seedIds = await songIngestionService.ingestTracks(collection.trackIds);
+        if (seedIds.length === 0) {
+          throw new Error(`No tracks with audio features found for this ${input.type}`);
+        }
+
+        const page = await vectorSearchService.findSongsLikeSongsPage(seedIds, {
+          limit: input.limit,
+          cursor: input.cursor ?? 0,
+          excludeIds: [...collection.trackIds, ...judgedTrackIds],
+        });
+
+        const tracks = await similarSongsToTracks(page.songs);
+
+        return {
+          tracks,
+          nextCursor: page.nextCursor,
+          seedCollection: { type: input.type, id: input.id, name: collection.name, trackIds: seedIds },
+        };
+      } catch (error) {
+        console.error('Collection recommendation failed:', error);
+        throw new Error('Failed to generate recommendations: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      }
+    }),
+
+  // Check a pasted Spotify link before starting a deck: what it points at and that it exists
+  resolveLink: publicProcedure
+    .input(z.object({ url: z.string().max(2000) }))
+    .output(z.object({
+      type: z.enum(SPOTIFY_RESOURCE_TYPES),
+      id: z.string(),
+      name: z.string(),
+    }))
+    .query(async ({ input }) => {
+      const resource = parseSpotifyUrl(input.url);
+      if (!resource) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Not a Spotify playlist, album, artist or track link' });
+      }
+
+      try {
+        return { ...resource, name: await songIngestionService.fetchResourceName(resource) };
+      } catch (error) {
+        if (error instanceof SpotifyApiError && (error.status === 404 || error.status === 400)) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: `That ${resource.type} doesn't exist or isn't public` });
+        }
+        throw error;
+      }
+    }),
+
+  // Shared deck for two or more playlists: songs near the weighted midpoint of their vectors
+  blend: publicProcedure
+    .input(z.object({
+      playlistIds: z.array(z.string()).min(2).max(MAX_BLEND_PLAYLISTS)
+        .refine(ids => new Set(ids).size === ids.length, 'Playlists must be distinct'),
+      weights: z.array(z.number().min(0)).optional(), // Per playlist, in order; equal by default
+      limit: z.number().min(1).max(100).default(50),
+      cursor: z.number().int().min(0).nullish(),
+    }).refine(input => !input.weights || input.weights.length === input.playlistIds.length, {
+      message: 'Provide one weight per playlist',
+      path: ['weights'],
+    }))
+    .output(BlendResponseSchema)
+    .query(async ({ ctx, input }) => {
+      const cursor = input.cursor ?? 0;
+      const weights = input.weights ?? input.playlistIds.map(() => 1);
+      const owner = swipeHistoryService.getOwner(ctx.session?.user.id, ctx.anonymousId);
+      const judgedTrackIds = owner
+        ? await swipeHistoryService.getJudgedTrackIds(owner, getDeckSourceId({ type: 'blend', playlistIds: input.playlistIds }))
+        : [];
+
+      try {
+        // Ingest sequentially to stay within Spotify's rate limits; later pages reuse stored analyses
+        const ingested = [];
+        for (const playlistId of input.playlistIds) {
+          const stored = cursor > 0 ? await songIngestionService.getPlaylistAnalysis(playlistId) : null;
+          ingested.push(stored
+            ? { trackIds: stored.trackIds, playlistAnalysis: stored }
+            : await songIngestionService.ingestPlaylist(playlistId));
+        }
+
+        const analyses = ingested.map(result => result.playlistAnalysis);
+        const analysisById = new Map(analyses.map(analysis => [analysis.spotifyPlaylistId, analysis]));
+        const playlistIds = analyses.map(analysis => analysis.spotifyPlaylistId);
+
+        const [page, similarities] = await Promise.all([
+          vectorSearchService.findSongsForBlend(playlistIds, {
+            weights,
+            limit: input.limit,
+            cursor,
+            // Skip songs already in any of the playlists or already swiped on this blend
+            excludeIds: [...ingested.flatMap(result => result.trackIds), ...judgedTrackIds],
+          }),
+          vectorSearchService.getPairwisePlaylistSimilarities(playlistIds),
+        ]);
+
+        const tracks = await similarSongsToTracks(page.songs);
+
+        return {
+          tracks,
+          nextCursor: page.nextCursor,
+          playlists: analyses.map((analysis, index) => ({
+            id: analysis.spotifyPlaylistId,
+            name: analysis.name,
+            description: analysis.description,
+            total_tracks: analysis.trackCount,
+            weight: weights[index] ?? 1,
+          })),
+          comparisons: similarities.map(pair => ({
+            playlistIds: [pair.sourcePlaylistId, pair.targetPlaylistId] as [string, string],
+            similarity: pair.similarity,
+            ...playlistComparisonService.compareTraits(
+              analysisById.get(pair.sourcePlaylistId)!,
+              analysisById.get(pair.targetPlaylistId)!
+            ),
+          })),
+        };
+      } catch (error) {
+        console.error('Blend recommendation failed:', error);
+        throw new Error('Failed to blend playlists: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      }
+    }),
+
+  // Reorder the unseen part of a deck from live swipes (Rocchio over combinedVector)
+  // A mutation so the ID lists travel in a POST body rather than the query URL
+  rerank: publicProcedure
+    .input(z.object({
+      playlistId: z.string().optional(),
+      playlistIds: z.array(z.string()).min(2).max(MAX_BLEND_PLAYLISTS).optional(), // Playlists of a blended deck
+      trackIds: z.array(z.string()).max(200).optional(), // Seed tracks of a deck not built from a playlist
+      likedIds: z.array(z.string()).max(500),
+      passedIds: z.array(z.string()).max(500),
+      candidateIds: z.array(z.string()).max(200),
+    }).refine(
+      input => [input.playlistId, input.playlistIds, input.trackIds].filter(Boolean).length === 1,
+      'Provide either a playlist, blended playlists or seed tracks'
+    ))
+    .mutation(async ({ input }) => {
+      const seed = input.trackIds ? { trackIds: input.trackIds }
+        : input.playlistIds ? { playlistIds: input.playlistIds }
+        : { playlistId: input.playlistId! };
+      const ranked = await vectorSearchService.rerankWithFeedback(seed, {
+        likedIds: input.likedIds,
+        passedIds: input.passedIds,
+        candidateIds: input.candidateIds,
+      });
+
+      return {
+        trackIds: ranked.map(candidate => candidate.spotifyId),
+      };
+    }),
 });
 
 interface PlaylistTrack {
@@ -162,6 +391,9 @@ interface SpotifySearchTrack {
   external_urls: {
     spotify: string;
   };
+  external_ids?: {
+    isrc?: string;
+  };
 }
 
 interface SpotifySearchResponse {
@@ -170,19 +402,87 @@ interface SpotifySearchResponse {
   };
 }
 
+// Ingest the playlist into the vector store and rank stored songs against its playlist vector
+// Later pages reuse the stored analysis instead of re-fetching the playlist from Spotify
+async function getVectorRecommendations(playlistId: string, limit: number, judgedTrackIds: string[], cursor: number) {
+  const storedAnalysis = cursor > 0 ? await songIngestionService.getPlaylistAnalysis(playlistId) : null;
+  const { trackIds, playlistAnalysis } = storedAnalysis
+    ? { trackIds: storedAnalysis.trackIds, playlistAnalysis: storedAnalysis }
+    : await songIngestionService.ingestPlaylist(playlistId);
+
+  const page = await vectorSearchService.findSongsForPlaylistPage(playlistAnalysis.spotifyPlaylistId, {
+    limit,
+    cursor,
+    excludeIds: [...trackIds, ...judgedTrackIds], // Skip songs already in the playlist or already swiped
+  });
+  const clusters = await playlistClusteringService.getClusters(playlistAnalysis.spotifyPlaylistId);
+
+  const tracks = await similarSongsToTracks(page.songs);
+
+  return {
+    tracks,
+    nextCursor: page.nextCursor,
+    originalPlaylist: {
+      id: playlistAnalysis.spotifyPlaylistId,
+      name: playlistAnalysis.name,
+      description: playlistAnalysis.description,
+      total_tracks: playlistAnalysis.trackCount,
+    },
+    clusters: clusters.length > 1
+      ? clusters.map(cluster => ({
+          genres: cluster.dominantGenres,
+          share: cluster.share,
+          avgEnergy: cluster.avgEnergy,
+          avgValence: cluster.avgValence,
+        }))
+      : [],
+  };
+}
+
+// Convert stored songs into the TrackSchema shape used by the discover page, resolving
+// previews for the whole batch at once
+async function similarSongsToTracks(songs: SimilarSong[]): Promise<z.infer<typeof TrackSchema>[]> {
+  const previews = await previewResolverService.resolveMany(songs.map(song => ({
+    spotifyId: song.spotifyId,
+    name: song.name,
+    artist: song.artist,
+    durationMs: song.durationMs,
+    previewUrl: song.previewUrl,
+  })));
+
+  return songs.map(song => similarSongToTrack(song, previews.get(song.spotifyId)));
+}
+
+function similarSongToTrack(song: SimilarSong, preview: ResolvedPreview | undefined): z.infer<typeof TrackSchema> {
+  const externalUrls = song.externalUrls as { spotify?: string } | null;
+
+  return {
+    id: song.spotifyId,
+    name: song.name,
+    artist: song.artist,
+    album: song.album,
+    image: song.imageUrl ?? 'https://via.placeholder.com/300x300?text=No+Image',
+    genres: song.genres,
+    year: song.releaseDate?.getFullYear() ?? new Date().getFullYear(),
+    popularity: song.popularity,
+    external_urls: {
+      spotify: externalUrls?.spotify ?? `https://open.spotify.com/track/${song.spotifyId}`,
+    },
+    similarity: Math.max(0, song.similarity),
+    duration_ms: song.durationMs,
+    smart_start_time: calculateSmartStartTime(song.durationMs, song.popularity),
+    stream_url: preview?.streamUrl ?? undefined,
+    deezer_id: preview?.deezerId ?? undefined,
+    apple_music_id: undefined,
+  };
+}
+
 // Analyze a playlist to understand its musical characteristics
-async function analyzePlaylistCharacteristics(playlistId: string, accessToken: string) {
+async function analyzePlaylistCharacteristics(playlistId: string) {
   // Get playlist info and tracks
-  const playlistResponse = await fetch(
-    `https://api.spotify.com/v1/playlists/${playlistId}?fields=id,name,description,tracks.total,tracks.items(track(id,name,artists(name,id),album(name,release_date),popularity))`,
-    { headers: { 'Authorization': `Bearer ${accessToken}` } }
+  const playlistData = await spotifyClient.request<PlaylistData>(
+    `/playlists/${playlistId}?fields=id,name,description,tracks.total,tracks.items(track(id,name,artists(name,id),album(name,release_date),popularity))`
   );
-
-  if (!playlistResponse.ok) {
-    throw new Error('Failed to fetch playlist');
-  }
-
-  const playlistData = await playlistResponse.json() as PlaylistData;
   
   if (!playlistData.tracks?.items?.length) {
     throw new Error('No tracks found in playlist');
@@ -269,25 +569,22 @@ function generateSmartSearchQueries(analysis: any) {
 // Search Spotify's catalog for recommendations
 async function searchSpotifyForRecommendations(
   searchQueries: string[], 
-  accessToken: string, 
   limit: number,
-  analysis: any
+  analysis: any,
+  excludeIds: string[] = [],
+  offset = 0
 ) {
   const recommendations = [];
-  const usedTrackIds = new Set();
+  const usedTrackIds = new Set(excludeIds);
+  const searchTracks = new Map<string, SpotifySearchTrack>();
 
   for (const query of searchQueries) {
     if (recommendations.length >= limit) break;
 
     try {
-      const searchResponse = await fetch(
-        `https://api.spotify.com/v1/search?q=${encodeURIComponent(query)}&type=track&limit=20`,
-        { headers: { 'Authorization': `Bearer ${accessToken}` } }
+      const searchData = await spotifyClient.request<SpotifySearchResponse>(
+        `/search?q=${encodeURIComponent(query)}&type=track&limit=${SEARCH_PAGE_SIZE}&offset=${offset}`
       );
-
-      if (!searchResponse.ok) continue;
-
-      const searchData = await searchResponse.json() as SpotifySearchResponse;
       const tracks = searchData.tracks?.items ?? [];
 
       for (const track of tracks) {
@@ -300,18 +597,6 @@ async function searchSpotifyForRecommendations(
           const imageUrl = track.album.images?.[0]?.url ?? 'https://via.placeholder.com/300x300?text=No+Image';
           const releaseYear = track.album.release_date ? parseInt(track.album.release_date.split('-')[0] ?? String(new Date().getFullYear())) : new Date().getFullYear();
           
-          // Try to get Deezer preview if Spotify doesn't have one
-          let streamUrl = track.preview_url;
-          let deezerId = undefined;
-          
-          if (!streamUrl) {
-            const deezerData = await searchDeezerTrack(track.name, track.artists?.[0]?.name ?? '');
-            if (deezerData) {
-              streamUrl = deezerData.preview;
-              deezerId = deezerData.id;
-            }
-          }
-          
           recommendations.push({
             id: track.id,
             name: track.name,
@@ -327,12 +612,11 @@ async function searchSpotifyForRecommendations(
             similarity,
             duration_ms: track.duration_ms,
             smart_start_time: calculateSmartStartTime(track.duration_ms ?? 0, track.popularity ?? 0),
-            stream_url: streamUrl ?? undefined,
-            deezer_id: deezerId,
             apple_music_id: undefined,
           });
 
           usedTrackIds.add(track.id);
+          searchTracks.set(track.id, track);
         }
       }
     } catch (error) {
@@ -340,10 +624,28 @@ async function searchSpotifyForRecommendations(
     }
   }
 
-  // Sort by similarity and return
-  return recommendations
+  // Sort by similarity, then resolve previews for the tracks that made the cut in one batch
+  const selected = recommendations
     .sort((a, b) => b.similarity - a.similarity)
     .slice(0, limit);
+
+  const previews = await previewResolverService.resolveMany(selected.map(recommendation => {
+    const track = searchTracks.get(recommendation.id)!;
+    return {
+      spotifyId: track.id,
+      name: track.name,
+      artist: track.artists.map(artist => artist.name).join(', '),
+      durationMs: track.duration_ms,
+      isrc: track.external_ids?.isrc,
+      previewUrl: track.preview_url,
+    };
+  }));
+
+  return selected.map(recommendation => ({
+    ...recommendation,
+    stream_url: previews.get(recommendation.id)?.streamUrl ?? undefined,
+    deezer_id: previews.get(recommendation.id)?.deezerId ?? undefined,
+  }));
 }
 
 // Calculate similarity between a track and playlist analysis
@@ -0,0 +1,86 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
+import { TrackSchema } from "@/server/api/routers/recommendations";
+import { swipeHistoryService } from "@/server/services/swipeHistory";
+
+// left = pass, right = like, up = super like, down = maybe
+const SwipeDirectionInput = z.enum(['left', 'right', 'up', 'down']);
+
+// Signed-in listeners are identified by session, signed-out ones by the anonymous cookie
+function requireOwner(userId: string | undefined, anonymousId: string | null) {
+  const owner = swipeHistoryService.getOwner(userId, anonymousId);
+  if (!owner) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Sign in or allow cookies to keep swipe history' });
+  }
+  return owner;
+}
+
+export const swipesRouter = createTRPCRouter({
+  record: publicProcedure
+    .input(z.object({
+      sourcePlaylistId: z.string(),
+      trackId: z.string(),
+      direction: SwipeDirectionInput,
+      dwellMs: z.number().int().min(0),
+      position: z.number().int().min(0),
+      track: TrackSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const owner = requireOwner(ctx.session?.user.id, ctx.anonymousId);
+
+      const recorded = await swipeHistoryService.record(owner, input);
+
+      return { id: recorded.id };
+    }),
+
+  // Settle a swipe after the fact, e.g. reviewing the "maybe" pile
+  setDirection: publicProcedure
+    .input(z.object({
+      sourcePlaylistId: z.string(),
+      trackId: z.string(),
+      direction: SwipeDirectionInput,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const owner = requireOwner(ctx.session?.user.id, ctx.anonymousId);
+
+      const updated = await swipeHistoryService.setDirection(owner, input.sourcePlaylistId, input.trackId, input.direction);
+
+      return { updated: updated > 0 };
+    }),
+
+  // Undo: drop the swipe so the track is served and counted as unseen again
+  undo: publicProcedure
+    .input(z.object({
+      sourcePlaylistId: z.string(),
+      trackId: z.string(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const owner = requireOwner(ctx.session?.user.id, ctx.anonymousId);
+
+      const removed = await swipeHistoryService.remove(owner, input.sourcePlaylistId, input.trackId);
+
+      return { removed: removed > 0 };
+    }),
+
+  // Swipes for one source playlist in order, for resuming a deck
+  list: publicProcedure
+    .input(z.object({
+      sourcePlaylistId: z.string(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const owner = requireOwner(ctx.session?.user.id, ctx.anonymousId);
+
+      const swipes = await swipeHistoryService.list(owner, input.sourcePlaylistId);
+
+      return swipes.map(swipe => ({
+        id: swipe.id,
+        trackId: swipe.trackId,
+        direction: swipe.direction,
+        dwellMs: swipe.dwellMs,
+        position: swipe.position,
+        track: swipe.track as z.infer<typeof TrackSchema>,
+        createdAt: swipe.createdAt,
+      }));
+    }),
+});
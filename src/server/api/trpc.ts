@@ -7,10 +7,11 @@
  * need to use are documented accordingly near the end.
  */
 
-import { initTRPC } from "@trpc/server";
+import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
 
+import { getAnonymousId, getSession, issueAnonymousId } from "@/server/auth";
 import { db } from "@/server/db";
 
 /**
@@ -25,9 +26,18 @@ import { db } from "@/server/db";
  *
  * @see https://trpc.io/docs/server/context
  */
-export const createTRPCContext = async (opts: { headers: Headers }) => {
+export const createTRPCContext = async (opts: { headers: Headers; resHeaders?: Headers }) => {
+  const session = await getSession(opts.headers);
+
+  // Signed-out listeners get a server-issued ID for their swipe history on their first API call
+  const anonymousId = session
+    ? null
+    : getAnonymousId(opts.headers) ?? (opts.resHeaders ? issueAnonymousId(opts.resHeaders) : null);
+
   return {
     db,
+    session,
+    anonymousId,
     ...opts,
   };
 };
@@ -106,3 +116,23 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
  */
 export const publicProcedure = t.procedure.use(timingMiddleware);
 
+
+/**
+ * Protected (authenticated) procedure
+ *
+ * If you want a query or mutation to ONLY be accessible to users signed in with Spotify, use this.
+ * It verifies the session is valid and guarantees `ctx.session.user` is not null.
+ */
+export const protectedProcedure = t.procedure
+  .use(timingMiddleware)
+  .use(({ ctx, next }) => {
+    if (!ctx.session?.user) {
+      throw new TRPCError({ code: "UNAUTHORIZED" });
+    }
+    return next({
+      ctx: {
+        // infers the `session` as non-nullable
+        session: { ...ctx.session, user: ctx.session.user },
+      },
+    });
+  });
@@ -0,0 +1,298 @@
+/**
+ * Spotify Login
+ * Authorization Code + PKCE sign-in backed by the User, Account and Session tables,
+ * and per-user Spotify access tokens for acting on the listener's own library
+ */
+
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+
+import { env } from "@/env";
+import { db } from "@/server/db";
+import { spotifyClient, type SpotifyTokenResponse } from "@/server/services/spotifyClient";
+
+export const SESSION_COOKIE = 'spwipe.session';
+export const PKCE_COOKIE = 'spwipe.pkce';
+export const ANONYMOUS_COOKIE = 'spwipe.anonymous';
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+export const PKCE_MAX_AGE_SECONDS = 10 * 60;
+export const ANONYMOUS_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+export const SPOTIFY_SCOPES = [
+  'user-read-email',
+  'user-read-private',
+  'playlist-read-private',
+  'playlist-read-collaborative',
+  'playlist-modify-private',
+  'playlist-modify-public',
+  'ugc-image-upload', // Playlist cover images
+];
+
+const SPOTIFY_PROVIDER = 'spotify';
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+
+// env.js requires AUTH_SECRET in production
+const AUTH_SECRET = env.AUTH_SECRET ?? 'spwipe-development-secret';
+
+export interface Session {
+  user: {
+    id: string;
+    name: string | null;
+    email: string | null;
+    image: string | null;
+  };
+  expires: Date;
+}
+
+export interface PkceState {
+  state: string;
+  codeVerifier: string;
+  returnTo: string;
+}
+
+interface SpotifyProfile {
+  id: string;
+  display_name: string | null;
+  email?: string;
+  images?: Array<{ url: string }>;
+}
+
+/**
+ * Missing or revoked Spotify tokens: the user has to sign in with Spotify again
+ */
+export class SpotifyReauthRequiredError extends Error {
+  constructor(message = 'Spotify login required') {
+    super(message);
+    this.name = 'SpotifyReauthRequiredError';
+  }
+}
+
+/**
+ * Fresh PKCE verifier/challenge pair and CSRF state for one login attempt
+ */
+export function createPkceChallenge(returnTo: string) {
+  const codeVerifier = randomBytes(64).toString('base64url');
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+  const pkce: PkceState = {
+    state: randomBytes(16).toString('base64url'),
+    codeVerifier,
+    returnTo,
+  };
+
+  return { pkce, codeChallenge };
+}
+
+/**
+ * Only same-origin paths are allowed as post-login redirects. The value is resolved the
+ * way a browser would, so forms like "/\evil.com" that leave the origin are rejected
+ */
+export function sanitizeReturnTo(returnTo: string | null, requestUrl: string): string {
+  if (!returnTo?.startsWith('/') || returnTo.startsWith('//') || returnTo.includes('\\')) return '/';
+
+  const origin = new URL(requestUrl).origin;
+  try {
+    return new URL(returnTo, origin).origin === origin ? returnTo : '/';
+  } catch {
+    return '/';
+  }
+}
+
+/**
+ * Append an HMAC so cookie values can't be forged or altered client-side
+ */
+export function signCookieValue(value: string): string {
+  return `${value}.${createHmac('sha256', AUTH_SECRET).update(value).digest('base64url')}`;
+}
+
+export function verifyCookieValue(signed: string | undefined): string | null {
+  if (!signed) return null;
+
+  const separator = signed.lastIndexOf('.');
+  if (separator === -1) return null;
+
+  const value = signed.slice(0, separator);
+  const expected = Buffer.from(signCookieValue(value));
+  const actual = Buffer.from(signed);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? value : null;
+}
+
+/**
+ * Sign in the Spotify user the tokens belong to: upsert User and Account, then open a Session
+ */
+export async function createSession(tokens: SpotifyTokenResponse) {
+  const profile = await spotifyClient.request<SpotifyProfile>('/me', { accessToken: tokens.access_token });
+
+  const userData = {
+    name: profile.display_name,
+    image: profile.images?.[0]?.url ?? null,
+  };
+  const accountTokens = {
+    access_token: tokens.access_token,
+    refresh_token: tokens.refresh_token,
+    expires_at: Math.floor(Date.now() / 1000) + tokens.expires_in,
+    token_type: tokens.token_type,
+    scope: tokens.scope,
+  };
+
+  const existing = await db.account.findUnique({
+    where: { provider_providerAccountId: { provider: SPOTIFY_PROVIDER, providerAccountId: profile.id } },
+    select: { id: true, userId: true },
+  });
+
+  let userId: string;
+
+  if (existing) {
+    userId = existing.userId;
+    await db.$transaction([
+      db.user.update({ where: { id: userId }, data: userData }),
+      db.account.update({ where: { id: existing.id }, data: accountTokens }),
+    ]);
+  } else {
+    // Emails are unique across users; don't claim one already taken
+    const emailTaken = profile.email
+      ? await db.user.findUnique({ where: { email: profile.email }, select: { id: true } })
+      : null;
+
+    const user = await db.user.create({
+      data: {
+        ...userData,
+        email: emailTaken ? null : profile.email,
+        accounts: {
+          create: {
+            type: 'oauth',
+            provider: SPOTIFY_PROVIDER,
+            providerAccountId: profile.id,
+            ...accountTokens,
+          },
+        },
+      },
+    });
+    userId = user.id;
+  }
+
+  const session = await db.session.create({
+    data: {
+      sessionToken: randomBytes(32).toString('base64url'),
+      userId,
+      expires: new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000),
+    },
+  });
+
+  return { sessionToken: session.sessionToken, userId, expires: session.expires };
+}
+
+/**
+ * Look up the session from the request's signed session cookie
+ */
+export async function getSession(headers: Headers): Promise<Session | null> {
+  const sessionToken = verifyCookieValue(readCookie(headers, SESSION_COOKIE));
+  if (!sessionToken) return null;
+
+  const session = await db.session.findUnique({
+    where: { sessionToken },
+    include: { user: { select: { id: true, name: true, email: true, image: true } } },
+  });
+
+  if (!session || session.expires < new Date()) {
+    return null;
+  }
+
+  return { user: session.user, expires: session.expires };
+}
+
+/**
+ * The signed-out listener's ID from the request's signed anonymous cookie
+ */
+export function getAnonymousId(headers: Headers): string | null {
+  return verifyCookieValue(readCookie(headers, ANONYMOUS_COOKIE));
+}
+
+/**
+ * Issue a new signed-out listener ID, set as a signed cookie on the response
+ */
+export function issueAnonymousId(resHeaders: Headers): string {
+  const anonymousId = randomUUID();
+  const attributes = ['Path=/', 'HttpOnly', 'SameSite=Lax', `Max-Age=${ANONYMOUS_MAX_AGE_SECONDS}`];
+  if (env.NODE_ENV === 'production') attributes.push('Secure');
+
+  resHeaders.append('Set-Cookie', [`${ANONYMOUS_COOKIE}=${signCookieValue(anonymousId)}`, ...attributes].join('; '));
+
+  return anonymousId;
+}
+
+export async function deleteSession(headers: Headers): Promise<void> {
+  const sessionToken = verifyCookieValue(readCookie(headers, SESSION_COOKIE));
+  if (!sessionToken) return;
+
+  await db.session.deleteMany({ where: { sessionToken } });
+}
+
+// Concurrent refreshes for one user share a request, since Spotify may rotate the refresh token
+const pendingRefreshes = new Map<string, Promise<string>>();
+
+/**
+ * Access token for acting as the user, refreshed and persisted when it is about to expire
+ */
+export async function getSpotifyAccessToken(userId: string): Promise<string> {
+  const account = await db.account.findFirst({
+    where: { userId, provider: SPOTIFY_PROVIDER },
+    select: { id: true, access_token: true, refresh_token: true, expires_at: true },
+  });
+
+  if (!account) {
+    throw new SpotifyReauthRequiredError('No Spotify account linked to this user');
+  }
+
+  if (account.access_token && account.expires_at &&
+      account.expires_at * 1000 - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+    return account.access_token;
+  }
+
+  const refreshToken = account.refresh_token;
+  if (!refreshToken) {
+    throw new SpotifyReauthRequiredError('Spotify access expired');
+  }
+
+  const pending = pendingRefreshes.get(userId) ?? refreshAccountToken(account.id, refreshToken)
+    .finally(() => pendingRefreshes.delete(userId));
+  pendingRefreshes.set(userId, pending);
+
+  return pending;
+}
+
+async function refreshAccountToken(accountId: string, refreshToken: string): Promise<string> {
+  let tokens: SpotifyTokenResponse;
+
+  try {
+    tokens = await spotifyClient.refreshUserToken(refreshToken);
+  } catch (error) {
+    console.error('Failed to refresh Spotify token:', error);
+    throw new SpotifyReauthRequiredError('Spotify access was revoked');
+  }
+
+  await db.account.update({
+    where: { id: accountId },
+    data: {
+      access_token: tokens.access_token,
+      refresh_token: tokens.refresh_token ?? refreshToken,
+      expires_at: Math.floor(Date.now() / 1000) + tokens.expires_in,
+      scope: tokens.scope,
+    },
+  });
+
+  return tokens.access_token;
+}
+
+function readCookie(headers: Headers, name: string): string | undefined {
+  const cookie = headers.get('cookie');
+  if (!cookie) return undefined;
+
+  for (const part of cookie.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      return decodeURIComponent(part.slice(separator + 1).trim());
+    }
+  }
+
+  return undefined;
+}
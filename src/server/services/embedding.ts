@@ -4,6 +4,8 @@
  * for similarity search and recommendation
  */
 
+import { db } from "@/server/db";
+
 interface SpotifyAudioFeatures {
   acousticness: number;
   danceability: number;
@@ -19,62 +21,119 @@ interface SpotifyAudioFeatures {
   time_signature: number;
 }
 
-interface SpotifyTrack {
-  id: string;
-  name: string;
-  artists: Array<{ name: string }>;
-  album: {
-    name: string;
-    release_date: string;
-    images: Array<{ url: string }>;
-  };
-  popularity: number;
-  duration_ms: number;
-  preview_url: string | null;
-  external_urls: { spotify: string };
-}
-
 interface SongMetadata {
-  track: SpotifyTrack;
+  track: {
+    popularity: number;
+    album: { release_date: string | null };
+  };
   audioFeatures: SpotifyAudioFeatures;
   genres: string[];
 }
 
-// Genre embeddings mapping common genres to vectors
-const GENRE_EMBEDDINGS: Record<string, number[]> = {
-  // Pop and mainstream
-  'pop': [1.0, 0.8, 0.6, 0.5, 0.7, 0.0, 0.0, 0.0, 0.0, 0.0],
-  'dance pop': [1.0, 0.9, 0.8, 0.6, 0.8, 0.0, 0.0, 0.0, 0.0, 0.0],
-  'electropop': [0.9, 0.8, 0.7, 0.8, 0.9, 0.0, 0.0, 0.0, 0.0, 0.0],
-  
-  // Rock
-  'rock': [0.0, 0.0, 0.0, 0.0, 0.0, 1.0, 0.8, 0.6, 0.5, 0.7],
-  'alternative rock': [0.0, 0.0, 0.0, 0.0, 0.0, 0.9, 0.8, 0.7, 0.6, 0.6],
-  'indie rock': [0.0, 0.0, 0.0, 0.0, 0.0, 0.8, 0.9, 0.8, 0.7, 0.5],
-  'hard rock': [0.0, 0.0, 0.0, 0.0, 0.0, 1.0, 0.7, 0.5, 0.9, 0.8],
-  
-  // Electronic
-  'electronic': [0.2, 0.9, 0.8, 1.0, 0.7, 0.0, 0.0, 0.0, 0.0, 0.0],
-  'house': [0.3, 1.0, 0.9, 0.9, 0.8, 0.0, 0.0, 0.0, 0.0, 0.0],
-  'techno': [0.1, 0.9, 0.8, 1.0, 0.6, 0.0, 0.0, 0.0, 0.0, 0.0],
-  'edm': [0.4, 1.0, 1.0, 0.8, 0.9, 0.0, 0.0, 0.0, 0.0, 0.0],
-  
-  // Hip-hop
-  'hip hop': [0.3, 0.8, 0.7, 0.2, 0.6, 0.0, 0.0, 0.0, 0.0, 0.0],
-  'rap': [0.2, 0.7, 0.6, 0.1, 0.5, 0.0, 0.0, 0.0, 0.0, 0.0],
-  'trap': [0.4, 0.9, 0.8, 0.3, 0.7, 0.0, 0.0, 0.0, 0.0, 0.0],
-  
-  // R&B and Soul
-  'r&b': [0.6, 0.7, 0.6, 0.3, 0.8, 0.0, 0.0, 0.0, 0.0, 0.0],
-  'soul': [0.7, 0.6, 0.7, 0.2, 0.9, 0.0, 0.0, 0.0, 0.0, 0.0],
-  'funk': [0.8, 0.9, 0.8, 0.4, 0.8, 0.0, 0.0, 0.0, 0.0, 0.0],
-  
-  // Default for unknown genres
-  'unknown': [0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5],
+/**
+ * Relative weight of each block of the combined vector. Blocks are L2-normalized and
+ * scaled by sqrt(weight), so the cosine similarity of two combined vectors is the
+ * weight-averaged cosine similarity of their blocks. Changing weights changes every
+ * stored vector, so bump EMBEDDING_VERSION alongside.
+ */
+export interface CombinedVectorWeights {
+  audio: number;
+  genre: number;
+  era: number;
+  popularity: number;
+  tonality: number;
+}
+
+export const DEFAULT_COMBINED_VECTOR_WEIGHTS: CombinedVectorWeights = {
+  audio: 0.4,
+  genre: 0.3,
+  era: 0.1,
+  popularity: 0.1,
+  tonality: 0.1,
 };
 
+// Size of the learned genre space (see genreEmbeddingTrainer.ts)
+export const GENRE_DIMENSIONS = 50;
+
+/**
+ * Combined vector layout (128 dimensions):
+ *
+ *   0-8     audio       acousticness, danceability, energy, instrumentalness, liveness,
+ *                       loudness, speechiness, tempo, valence; normalized to 0-1, centered on 0.5
+ *   9-58    genre       learned genre vector (GENRE_DIMENSIONS)
+ *   59-67   era         release year, soft one-hot over decades 1950-2030
+ *   68-72   popularity  soft one-hot over popularity 0, 25, 50, 75, 100
+ *   73-76   tonality    key on the circle of fifths (cos, sin; minor keys at their
+ *                       relative major), then major and minor flags
+ *   77-127  reserved    always zero
+ *
+ * A block with no data (no genres, unknown release date or key) is all zeros and
+ * contributes nothing to similarity.
+ */
+export const COMBINED_VECTOR_DIMENSIONS = 128;
+
+const DECADE_CENTERS = [1950, 1960, 1970, 1980, 1990, 2000, 2010, 2020, 2030];
+const POPULARITY_CENTERS = [0, 25, 50, 75, 100];
+
+// Bump whenever vector construction changes so stored vectors and cached scores are recomputed
+export const EMBEDDING_VERSION = 2;
+
 export class EmbeddingService {
-  
+  constructor(private weights: CombinedVectorWeights = DEFAULT_COMBINED_VECTOR_WEIGHTS) {}
+
+  // Latest learned genre vectors, loaded from the GenreEmbedding table
+  private genreEmbeddings = new Map<string, number[]>();
+  private genreEmbeddingVersion: number | null = null;
+
+  // Known genres by word, and memoized back-off vectors for genres that weren't trained
+  private genresByToken = new Map<string, string[]>();
+  private backoffEmbeddings = new Map<string, number[] | null>();
+
+  /**
+   * Load the latest genre embedding version if it isn't loaded already
+   * Returns the loaded version, or null when no embeddings have been trained yet
+   */
+  async loadGenreEmbeddings(): Promise<number | null> {
+    const version = await this.getLatestGenreEmbeddingVersion();
+
+    if (version === null || version === this.genreEmbeddingVersion) {
+      return this.genreEmbeddingVersion;
+    }
+
+    const rows = await db.genreEmbedding.findMany({
+      where: { version },
+      select: { genre: true, vector: true },
+    });
+
+    this.genreEmbeddings = new Map(rows.map(row => [row.genre, row.vector]));
+    this.genresByToken = new Map();
+    for (const genre of this.genreEmbeddings.keys()) {
+      for (const token of this.tokenizeGenre(genre)) {
+        this.genresByToken.set(token, [...(this.genresByToken.get(token) ?? []), genre]);
+      }
+    }
+    this.backoffEmbeddings = new Map();
+    this.genreEmbeddingVersion = version;
+
+    console.log(`Loaded ${rows.length} genre embeddings (version ${version})`);
+    return version;
+  }
+
+  /**
+   * Newest trained genre embedding version, without loading it; null when none are trained
+   */
+  async getLatestGenreEmbeddingVersion(): Promise<number | null> {
+    const latest = await db.genreEmbedding.aggregate({ _max: { version: true } });
+    return latest._max.version;
+  }
+
+  /**
+   * Version of the genre embeddings currently in use, or null if none are loaded
+   */
+  getGenreEmbeddingVersion(): number | null {
+    return this.genreEmbeddingVersion;
+  }
+
   /**
    * Create normalized audio feature vector (12 dimensions)
    */
@@ -97,23 +156,18 @@ export class EmbeddingService {
 
   /**
    * Create genre embedding vector (50 dimensions)
+   * Averages the learned vectors of the song's genres; call loadGenreEmbeddings() first
    */
   createGenreVector(genres: string[]): number[] {
-    if (genres.length === 0) {
-      return new Array(50).fill(0);
-    }
+    const vector = new Array<number>(GENRE_DIMENSIONS).fill(0);
+    const embeddings = genres
+      .map(genre => this.getGenreEmbedding(genre.toLowerCase()))
+      .filter((embedding): embedding is number[] => embedding !== null);
 
-    // Start with zeros
-    const vector = new Array(50).fill(0);
-    
-    // For each genre, add its embedding
-    for (const genre of genres) {
-      const genreKey = genre.toLowerCase();
-      const genreEmbedding = GENRE_EMBEDDINGS[genreKey] ?? GENRE_EMBEDDINGS['unknown']!;
-      
-      // Add genre embedding to appropriate positions in vector
-      for (let i = 0; i < Math.min(genreEmbedding.length, 50); i++) {
-        vector[i] += (genreEmbedding[i] ?? 0) / genres.length; // Average if multiple genres
+    // Genres nothing is known about contribute nothing rather than a shared placeholder
+    for (const embedding of embeddings) {
+      for (let i = 0; i < GENRE_DIMENSIONS; i++) {
+        vector[i]! += (embedding[i] ?? 0) / embeddings.length;
       }
     }
 
@@ -122,43 +176,59 @@ export class EmbeddingService {
 
   /**
    * Create combined feature vector (128 dimensions)
-   * Combines audio features, genre, and metadata into single vector
+   * Concatenates weighted audio, genre, era, popularity and tonality blocks; see COMBINED_VECTOR_DIMENSIONS
    */
   createCombinedVector(songMetadata: SongMetadata): number[] {
-    const audioVector = this.createAudioFeatureVector(songMetadata.audioFeatures);
-    const genreVector = this.createGenreVector(songMetadata.genres);
-    
-    // Additional metadata features
-    const metadataFeatures = [
-      songMetadata.track.popularity / 100, // Normalize 0-100 to 0-1
-      this.normalizeYear(songMetadata.track.album.release_date),
-      this.normalizeDuration(songMetadata.track.duration_ms),
-      songMetadata.track.preview_url ? 1.0 : 0.0, // Has preview
-    ];
+    const { audioFeatures, genres, track } = songMetadata;
+
+    const audio = [
+      audioFeatures.acousticness,
+      audioFeatures.danceability,
+      audioFeatures.energy,
+      audioFeatures.instrumentalness,
+      audioFeatures.liveness,
+      this.normalizeLoudness(audioFeatures.loudness),
+      audioFeatures.speechiness,
+      this.normalizeTempo(audioFeatures.tempo),
+      audioFeatures.valence,
+    ].map(value => value - 0.5); // Centered so dissimilar songs can point in opposite directions
+
+    const year = this.parseYear(track.album.release_date);
+    const era = year === null
+      ? new Array<number>(DECADE_CENTERS.length).fill(0)
+      : this.softBuckets(year, DECADE_CENTERS, 10);
+
+    const popularity = this.softBuckets(track.popularity, POPULARITY_CENTERS, 20);
 
-    // Combine all vectors
     const combined = [
-      ...audioVector, // 12 dimensions
-      ...genreVector.slice(0, 20), // 20 dimensions (truncated genre vector)
-      ...metadataFeatures, // 4 dimensions
+      ...this.weightBlock(audio, this.weights.audio),
+      ...this.weightBlock(this.createGenreVector(genres), this.weights.genre),
+      ...this.weightBlock(era, this.weights.era),
+      ...this.weightBlock(popularity, this.weights.popularity),
+      ...this.weightBlock(this.createTonalityVector(audioFeatures.key, audioFeatures.mode), this.weights.tonality),
     ];
 
-    // Pad to 128 dimensions with derived features
-    while (combined.length < 128) {
-      // Add some derived features
-      const audioEnergy = audioVector[2] ?? 0; // energy
-      const danceability = audioVector[1] ?? 0; // danceability
-      const valence = audioVector[8] ?? 0; // valence
-      
-      combined.push(
-        audioEnergy * danceability, // Energy-dance interaction
-        valence * audioEnergy, // Mood-energy interaction
-        (audioVector[0] ?? 0) * (audioVector[3] ?? 0), // Acoustic-instrumental
-        0 // Padding
-      );
+    while (combined.length < COMBINED_VECTOR_DIMENSIONS) {
+      combined.push(0); // Reserved
     }
 
-    return this.normalizeVector(combined.slice(0, 128));
+    return this.normalizeVector(combined);
+  }
+
+  /**
+   * Encode key and mode on the circle of fifths (4 dimensions)
+   * Adjacent keys on the circle (and relative major/minor pairs) get similar vectors
+   */
+  createTonalityVector(key: number, mode: number): number[] {
+    if (key < 0 || key > 11) {
+      return [0, 0, 0, 0]; // Spotify reports -1 when no key was detected
+    }
+
+    // Minor keys sit at the position of their relative major (A minor -> C major)
+    const majorKey = mode === 1 ? key : (key + 3) % 12;
+    const angle = (2 * Math.PI * ((majorKey * 7) % 12)) / 12;
+
+    return [Math.cos(angle), Math.sin(angle), mode === 1 ? 1 : 0, mode === 1 ? 0 : 1];
   }
 
   /**
@@ -206,6 +276,33 @@ export class EmbeddingService {
     return this.normalizeVector(avgVector);
   }
 
+  /**
+   * Look up a genre's learned vector, backing off to the average of trained
+   * genres that share a word with it (e.g. an untrained "bedroom pop" uses the "* pop" genres)
+   */
+  private getGenreEmbedding(genre: string): number[] | null {
+    const trained = this.genreEmbeddings.get(genre);
+    if (trained) return trained;
+
+    const memoized = this.backoffEmbeddings.get(genre);
+    if (memoized !== undefined) return memoized;
+
+    const related = [...new Set(
+      this.tokenizeGenre(genre).flatMap(token => this.genresByToken.get(token) ?? [])
+    )];
+
+    const backoff = related.length > 0
+      ? this.createPlaylistVector(related.map(g => this.genreEmbeddings.get(g)!))
+      : null;
+
+    this.backoffEmbeddings.set(genre, backoff);
+    return backoff;
+  }
+
+  private tokenizeGenre(genre: string): string[] {
+    return genre.split(/[\s-]+/).filter(token => token.length > 0);
+  }
+
   // Utility functions for normalization
   private normalizeLoudness(loudness: number): number {
     // Spotify loudness is typically -60 to 0 dB
@@ -217,21 +314,20 @@ export class EmbeddingService {
     return Math.max(0, Math.min(1, (tempo - 50) / 150));
   }
 
-  private normalizeYear(releaseDate: string): number {
-    try {
-      const year = new Date(releaseDate).getFullYear();
-      const currentYear = new Date().getFullYear();
-      // Normalize with more weight to recent years
-      return Math.max(0, Math.min(1, (year - 1950) / (currentYear - 1950)));
-    } catch {
-      return 0.5; // Default for invalid dates
-    }
+  private parseYear(releaseDate: string | null): number | null {
+    // Spotify release dates are "YYYY", "YYYY-MM" or "YYYY-MM-DD"
+    const year = releaseDate ? parseInt(releaseDate.slice(0, 4)) : NaN;
+    return Number.isNaN(year) ? null : year;
+  }
+
+  // Gaussian memberships of a value in evenly spaced buckets, so nearby values overlap
+  private softBuckets(value: number, centers: number[], width: number): number[] {
+    return centers.map(center => Math.exp(-0.5 * ((value - center) / width) ** 2));
   }
 
-  private normalizeDuration(durationMs: number): number {
-    // Typical song duration 1-10 minutes
-    const durationMinutes = durationMs / 60000;
-    return Math.max(0, Math.min(1, (durationMinutes - 1) / 9));
+  private weightBlock(block: number[], weight: number): number[] {
+    const scale = Math.sqrt(weight);
+    return this.normalizeVector(block).map(value => value * scale);
   }
 
   private normalizeVector(vector: number[]): number[] {
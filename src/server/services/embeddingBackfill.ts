@@ -0,0 +1,201 @@
+/**
+ * Embedding Backfill
+ * Recomputes stored song and playlist vectors after EmbeddingService changes,
+ * using the audio feature columns already in the database
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "@/server/db";
+import { EMBEDDING_VERSION, embeddingService } from "./embedding";
+import { parseSqlVector, toSqlVector } from "./pgvector";
+import { playlistClusteringService } from "./playlistClustering";
+
+export interface EmbeddingBackfillOptions {
+  all?: boolean; // Recompute every row, not only rows from an older EMBEDDING_VERSION or genre embedding version
+  after?: string; // Resume an `all` run after this Song ID
+  pageSize?: number; // Rows read and written per batch
+}
+
+export interface EmbeddingBackfillResult {
+  songsUpdated: number;
+  playlistsUpdated: number;
+  playlistsSkipped: number; // Analyses without stored track IDs, which need re-ingestion
+}
+
+export class EmbeddingBackfillService {
+
+  /**
+   * Recompute song vectors, then rebuild playlist vectors from them
+   * Without `all`, rows are selected by their embedding versions, so an interrupted run resumes by rerunning
+   */
+  async run(options: EmbeddingBackfillOptions = {}): Promise<EmbeddingBackfillResult> {
+    const { all = false, after, pageSize = 500 } = options;
+
+    const genreEmbeddingVersion = await embeddingService.loadGenreEmbeddings();
+
+    const songsUpdated = await this.backfillSongs(all, after, pageSize, genreEmbeddingVersion);
+    const { playlistsUpdated, playlistsSkipped } = await this.rebuildPlaylistVectors(all, pageSize, genreEmbeddingVersion);
+
+    console.log(
+      `Backfill complete: ${songsUpdated} songs and ${playlistsUpdated} playlists updated, ` +
+      `${playlistsSkipped} playlists skipped`
+    );
+
+    return { songsUpdated, playlistsUpdated, playlistsSkipped };
+  }
+
+  private async backfillSongs(
+    all: boolean,
+    after: string | undefined,
+    pageSize: number,
+    genreEmbeddingVersion: number | null
+  ): Promise<number> {
+    const where: Prisma.SongWhereInput = all ? {} : { OR: this.staleVersions(genreEmbeddingVersion) };
+    const total = await db.song.count({ where: after ? { ...where, id: { gt: after } } : where });
+
+    console.log(`Recomputing vectors for ${total} songs (embedding version ${EMBEDDING_VERSION})`);
+
+    let updated = 0;
+    let cursor = after;
+
+    while (true) {
+      const songs = await db.song.findMany({
+        where: cursor ? { ...where, id: { gt: cursor } } : where,
+        orderBy: { id: 'asc' },
+        take: pageSize,
+        select: {
+          id: true,
+          acousticness: true,
+          danceability: true,
+          energy: true,
+          instrumentalness: true,
+          liveness: true,
+          loudness: true,
+          speechiness: true,
+          tempo: true,
+          valence: true,
+          mode: true,
+          key: true,
+          timeSignature: true,
+          popularity: true,
+          releaseDate: true,
+          genres: true,
+        },
+      });
+
+      if (songs.length === 0) break;
+
+      const rows = songs.map(song => {
+        const audioFeatures = { ...song, time_signature: song.timeSignature };
+        const combinedVector = embeddingService.createCombinedVector({
+          track: {
+            popularity: song.popularity,
+            album: { release_date: song.releaseDate?.toISOString().slice(0, 10) ?? null },
+          },
+          audioFeatures,
+          genres: song.genres,
+        });
+
+        return Prisma.sql`(
+          ${song.id},
+          ${toSqlVector(embeddingService.createAudioFeatureVector(audioFeatures))}::vector,
+          ${toSqlVector(embeddingService.createGenreVector(song.genres))}::vector,
+          ${toSqlVector(combinedVector)}::vector
+        )`;
+      });
+
+      await db.$executeRaw`
+        UPDATE "Song" AS s
+        SET "audioFeatureVector" = v."audioFeatureVector",
+            "genreVector" = v."genreVector",
+            "combinedVector" = v."combinedVector",
+            "embeddingVersion" = ${EMBEDDING_VERSION},
+            "genreEmbeddingVersion" = ${genreEmbeddingVersion},
+            "updatedAt" = NOW()
+        FROM (VALUES ${Prisma.join(rows)}) AS v("id", "audioFeatureVector", "genreVector", "combinedVector")
+        WHERE s."id" = v."id"
+      `;
+
+      updated += songs.length;
+      cursor = songs[songs.length - 1]!.id;
+      console.log(`Songs: ${updated}/${total} (resume with --after=${cursor})`);
+    }
+
+    return updated;
+  }
+
+  private async rebuildPlaylistVectors(all: boolean, pageSize: number, genreEmbeddingVersion: number | null) {
+    const where: Prisma.PlaylistAnalysisWhereInput = all ? {} : { OR: this.staleVersions(genreEmbeddingVersion) };
+    const total = await db.playlistAnalysis.count({ where });
+
+    console.log(`Rebuilding vectors for ${total} playlists`);
+
+    let playlistsUpdated = 0;
+    let playlistsSkipped = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+      const playlists = await db.playlistAnalysis.findMany({
+        where: cursor ? { ...where, id: { gt: cursor } } : where,
+        orderBy: { id: 'asc' },
+        take: pageSize,
+        select: { id: true, spotifyPlaylistId: true, trackIds: true },
+      });
+
+      if (playlists.length === 0) break;
+
+      for (const playlist of playlists) {
+        const songs = playlist.trackIds.length > 0
+          ? await db.$queryRaw<Array<{ vector: string }>>`
+              SELECT "combinedVector"::text AS "vector"
+              FROM "Song"
+              WHERE "spotifyId" = ANY(${playlist.trackIds}) AND "combinedVector" IS NOT NULL
+            `
+          : [];
+
+        if (songs.length === 0) {
+          console.warn(`Playlist ${playlist.spotifyPlaylistId} has no stored songs, re-ingest it to rebuild`);
+          playlistsSkipped++;
+          continue;
+        }
+
+        const playlistVector = embeddingService.createPlaylistVector(
+          songs.map(song => parseSqlVector(song.vector))
+        );
+
+        // Bumping updatedAt invalidates the playlist's cached similarities
+        await db.$executeRaw`
+          UPDATE "PlaylistAnalysis"
+          SET "playlistVector" = ${toSqlVector(playlistVector)}::vector,
+              "embeddingVersion" = ${EMBEDDING_VERSION},
+              "genreEmbeddingVersion" = ${genreEmbeddingVersion},
+              "updatedAt" = NOW()
+          WHERE "id" = ${playlist.id}
+        `;
+        await playlistClusteringService.rebuildClusters(playlist.id, playlist.trackIds);
+        playlistsUpdated++;
+      }
+
+      cursor = playlists[playlists.length - 1]!.id;
+      console.log(`Playlists: ${playlistsUpdated + playlistsSkipped}/${total}`);
+    }
+
+    return { playlistsUpdated, playlistsSkipped };
+  }
+
+  /**
+   * Conditions matching rows built with an older EMBEDDING_VERSION or genre embedding version
+   * `not` never matches NULL in SQL, so missing versions are matched explicitly
+   */
+  private staleVersions(genreEmbeddingVersion: number | null) {
+    return [
+      { embeddingVersion: null },
+      { embeddingVersion: { not: EMBEDDING_VERSION } },
+      genreEmbeddingVersion === null
+        ? { genreEmbeddingVersion: { not: null } }
+        : { OR: [{ genreEmbeddingVersion: null }, { genreEmbeddingVersion: { not: genreEmbeddingVersion } }] },
+    ];
+  }
+}
+
+export const embeddingBackfillService = new EmbeddingBackfillService();
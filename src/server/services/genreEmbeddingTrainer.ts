@@ -0,0 +1,257 @@
+/**
+ * Genre Embedding Trainer
+ * Learns genre vectors offline from how genres co-occur on songs in the catalog:
+ * a positive PMI matrix over genre pairs, factorized into GENRE_DIMENSIONS with a
+ * truncated eigendecomposition (the SVD of the symmetric PPMI matrix)
+ */
+
+import { db } from "@/server/db";
+import { GENRE_DIMENSIONS } from "./embedding";
+
+export interface GenreEmbeddingTrainingOptions {
+  minSongCount?: number; // Ignore genres tagged on fewer songs than this
+  maxGenres?: number; // Keep only the most frequent genres
+  iterations?: number; // Subspace iterations for the factorization
+  contextSmoothing?: number; // Exponent applied to genre counts in the PMI denominator
+}
+
+export interface GenreEmbeddingTrainingResult {
+  version: number;
+  genreCount: number;
+  songCount: number;
+}
+
+interface SparseRow {
+  columns: number[];
+  values: number[];
+}
+
+const SONG_PAGE_SIZE = 1000;
+const WRITE_BATCH_SIZE = 500;
+
+export class GenreEmbeddingTrainer {
+
+  /**
+   * Train a new genre embedding version from the current Song catalog
+   * Songs embedded with an older version keep their vectors until they are recomputed
+   */
+  async train(options: GenreEmbeddingTrainingOptions = {}): Promise<GenreEmbeddingTrainingResult> {
+    const {
+      minSongCount = 3,
+      maxGenres = 4000,
+      iterations = 30,
+      contextSmoothing = 0.75,
+    } = options;
+
+    const { genreCounts, pairCounts, songCount } = await this.countCooccurrences();
+
+    // Vocabulary: frequent genres, most common first
+    const vocabulary = [...genreCounts.entries()]
+      .filter(([, count]) => count >= minSongCount)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, maxGenres)
+      .map(([genre]) => genre);
+
+    if (vocabulary.length === 0) {
+      throw new Error('No genres with enough songs to train embeddings');
+    }
+
+    console.log(`Training genre embeddings for ${vocabulary.length} genres from ${songCount} songs`);
+
+    const matrix = this.buildPpmiMatrix(vocabulary, pairCounts, contextSmoothing);
+    const embeddings = this.factorize(matrix, Math.min(GENRE_DIMENSIONS, vocabulary.length), iterations);
+
+    const latest = await db.genreEmbedding.aggregate({ _max: { version: true } });
+    const version = (latest._max.version ?? 0) + 1;
+
+    // Genres that never co-occur with another vocabulary genre have no learned signal
+    const rows = vocabulary.flatMap((genre, i) => {
+      const vector = embeddings[i]!;
+      return vector.some(value => value !== 0)
+        ? [{ version, genre, vector, songCount: genreCounts.get(genre) ?? 0 }]
+        : [];
+    });
+
+    // One transaction, so readers picking the latest version never see it half written
+    const batches = [];
+    for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+      batches.push(db.genreEmbedding.createMany({ data: rows.slice(i, i + WRITE_BATCH_SIZE) }));
+    }
+    await db.$transaction(batches);
+
+    console.log(`Stored ${rows.length} genre embeddings as version ${version}`);
+
+    return { version, genreCount: rows.length, songCount };
+  }
+
+  /**
+   * Stream Song genres and count how often each genre, and each pair of genres, is tagged
+   */
+  private async countCooccurrences() {
+    const genreCounts = new Map<string, number>();
+    const pairCounts = new Map<string, Map<string, number>>();
+    let songCount = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+      const songs = await db.song.findMany({
+        select: { id: true, genres: true },
+        orderBy: { id: 'asc' },
+        take: SONG_PAGE_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+
+      if (songs.length === 0) break;
+
+      for (const song of songs) {
+        const genres = [...new Set(song.genres.map(genre => genre.toLowerCase()))];
+        if (genres.length === 0) continue;
+        songCount++;
+
+        for (const genre of genres) {
+          genreCounts.set(genre, (genreCounts.get(genre) ?? 0) + 1);
+
+          const pairs = pairCounts.get(genre) ?? new Map<string, number>();
+          for (const other of genres) {
+            if (other !== genre) {
+              pairs.set(other, (pairs.get(other) ?? 0) + 1);
+            }
+          }
+          pairCounts.set(genre, pairs);
+        }
+      }
+
+      cursor = songs[songs.length - 1]!.id;
+    }
+
+    return { genreCounts, pairCounts, songCount };
+  }
+
+  /**
+   * Positive PMI over co-occurrence counts, with smoothed marginals on both sides
+   * so the matrix stays symmetric
+   */
+  private buildPpmiMatrix(
+    vocabulary: string[],
+    pairCounts: Map<string, Map<string, number>>,
+    contextSmoothing: number
+  ): SparseRow[] {
+    const index = new Map(vocabulary.map((genre, i) => [genre, i]));
+
+    const counts = vocabulary.map(genre =>
+      [...(pairCounts.get(genre) ?? new Map<string, number>()).entries()]
+        .filter(([other]) => index.has(other))
+        .map(([other, count]) => [index.get(other)!, count] as const)
+    );
+
+    const rowTotals = counts.map(row => row.reduce((sum, [, count]) => sum + count, 0));
+    const total = rowTotals.reduce((sum, count) => sum + count, 0);
+    const smoothedTotals = rowTotals.map(count => Math.pow(count, contextSmoothing));
+    const smoothedSum = smoothedTotals.reduce((sum, count) => sum + count, 0);
+
+    return counts.map((row, i) => {
+      const columns: number[] = [];
+      const values: number[] = [];
+
+      for (const [j, count] of row) {
+        const pmi = Math.log(
+          (count / total) /
+          ((smoothedTotals[i]! / smoothedSum) * (smoothedTotals[j]! / smoothedSum))
+        );
+
+        if (pmi > 0) {
+          columns.push(j);
+          values.push(pmi);
+        }
+      }
+
+      return { columns, values };
+    });
+  }
+
+  /**
+   * Truncated eigendecomposition by orthogonal (subspace) iteration
+   * Each genre's embedding is its row of the eigenvectors scaled by sqrt(eigenvalue), normalized
+   */
+  private factorize(matrix: SparseRow[], rank: number, iterations: number): number[][] {
+    const size = matrix.length;
+    const random = this.seededRandom(42); // Deterministic so retraining the same catalog is stable
+
+    let basis: Float64Array[] = Array.from({ length: rank }, () =>
+      Float64Array.from({ length: size }, () => random() - 0.5)
+    );
+    this.orthonormalize(basis);
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      basis = basis.map(column => this.multiply(matrix, column));
+      this.orthonormalize(basis);
+    }
+
+    // Rayleigh quotients approximate the eigenvalues; negative ones carry no similarity signal
+    const scales = basis.map(column => {
+      const product = this.multiply(matrix, column);
+      const eigenvalue = column.reduce((sum, value, i) => sum + value * product[i]!, 0);
+      return Math.sqrt(Math.max(0, eigenvalue));
+    });
+
+    return Array.from({ length: size }, (_, i) => {
+      const vector = new Array<number>(GENRE_DIMENSIONS).fill(0);
+      for (let k = 0; k < rank; k++) {
+        vector[k] = basis[k]![i]! * scales[k]!;
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+      return norm === 0 ? vector : vector.map(value => value / norm);
+    });
+  }
+
+  private multiply(matrix: SparseRow[], vector: Float64Array): Float64Array {
+    const result = new Float64Array(matrix.length);
+    matrix.forEach((row, i) => {
+      let sum = 0;
+      for (let n = 0; n < row.columns.length; n++) {
+        sum += row.values[n]! * vector[row.columns[n]!]!;
+      }
+      result[i] = sum;
+    });
+    return result;
+  }
+
+  /**
+   * Modified Gram-Schmidt, in place
+   */
+  private orthonormalize(columns: Float64Array[]): void {
+    for (let k = 0; k < columns.length; k++) {
+      const column = columns[k]!;
+
+      for (let j = 0; j < k; j++) {
+        const previous = columns[j]!;
+        let dot = 0;
+        for (let i = 0; i < column.length; i++) dot += column[i]! * previous[i]!;
+        for (let i = 0; i < column.length; i++) column[i]! -= dot * previous[i]!;
+      }
+
+      let norm = 0;
+      for (const value of column) norm += value * value;
+      norm = Math.sqrt(norm);
+
+      // A collapsed column (rank-deficient matrix) stays zero
+      for (let i = 0; i < column.length; i++) {
+        column[i] = norm > 1e-10 ? column[i]! / norm : 0;
+      }
+    }
+  }
+
+  private seededRandom(seed: number): () => number {
+    // mulberry32
+    let state = seed;
+    return () => {
+      state = (state + 0x6d2b79f5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
+
+export const genreEmbeddingTrainer = new GenreEmbeddingTrainer();
@@ -0,0 +1,23 @@
+/**
+ * pgvector helpers
+ * Prisma models vector columns as Unsupported, so they are read and written
+ * through raw SQL using pgvector's text representation ("[0.1,0.2,...]")
+ */
+
+/**
+ * Serialize a vector for use as a `${...}::vector` query parameter
+ */
+export function toSqlVector(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
+
+/**
+ * Parse a vector selected as `"column"::text`
+ */
+export function parseSqlVector(value: string): number[] {
+  return value
+    .replace(/^\[|\]$/g, '')
+    .split(',')
+    .filter(part => part.length > 0)
+    .map(Number);
+}
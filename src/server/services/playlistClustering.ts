@@ -0,0 +1,258 @@
+/**
+ * Playlist Clustering
+ * Splits a playlist's songs into clusters of similar combinedVectors, so a playlist that
+ * mixes distinct styles (say jazz and techno) is represented by one centroid per style
+ * instead of a single average that sits between them
+ */
+
+import { db } from "@/server/db";
+import { embeddingService } from "./embedding";
+import { parseSqlVector, toSqlVector } from "./pgvector";
+
+export interface ClusterableSong {
+  vector: number[];
+  genres: string[];
+  energy: number;
+  valence: number;
+}
+
+export interface SongCluster {
+  centroid: number[];
+  size: number;
+  dominantGenres: string[];
+  avgEnergy: number;
+  avgValence: number;
+}
+
+export interface StoredPlaylistCluster extends SongCluster {
+  index: number;
+  share: number; // Fraction of the playlist's clustered songs (0-1)
+}
+
+const MAX_CLUSTERS = 4;
+// Smaller clusters are noise rather than a style of their own
+const MIN_CLUSTER_SIZE = 5;
+const MIN_CLUSTER_SHARE = 0.15;
+// Mean silhouette a split needs to beat keeping the playlist as one cluster
+const MIN_SILHOUETTE = 0.15;
+const MAX_KMEANS_ITERATIONS = 25;
+// Silhouettes are quadratic in the song count, so large playlists are scored on a sample
+const SILHOUETTE_SAMPLE_SIZE = 300;
+const CLUSTER_GENRE_COUNT = 3;
+
+export class PlaylistClusteringService {
+
+  /**
+   * Cluster the songs, choosing k (1 to 4) by mean silhouette; largest cluster first
+   */
+  cluster(songs: ClusterableSong[]): SongCluster[] {
+    if (songs.length === 0) return [];
+
+    let bestAssignments = songs.map(() => 0);
+    let bestK = 1;
+    let bestSilhouette = MIN_SILHOUETTE;
+    const maxK = Math.min(MAX_CLUSTERS, Math.floor(songs.length / MIN_CLUSTER_SIZE));
+
+    for (let k = 2; k <= maxK; k++) {
+      const assignments = this.kMeans(songs.map(song => song.vector), k);
+      const sizes = this.countSizes(assignments, k);
+
+      if (sizes.some(size => size < Math.max(MIN_CLUSTER_SIZE, songs.length * MIN_CLUSTER_SHARE))) {
+        continue;
+      }
+
+      const silhouette = this.meanSilhouette(songs.map(song => song.vector), assignments, k);
+      if (silhouette > bestSilhouette) {
+        bestAssignments = assignments;
+        bestK = k;
+        bestSilhouette = silhouette;
+      }
+    }
+
+    return Array.from({ length: bestK }, (_, cluster) => {
+      const members = songs.filter((_, i) => bestAssignments[i] === cluster);
+      return this.summarize(members);
+    }).sort((a, b) => b.size - a.size);
+  }
+
+  /**
+   * Replace a playlist analysis's stored clusters
+   */
+  async saveClusters(playlistAnalysisId: string, clusters: SongCluster[]): Promise<void> {
+    await db.playlistCluster.deleteMany({ where: { playlistAnalysisId } });
+
+    for (const [index, cluster] of clusters.entries()) {
+      const stored = await db.playlistCluster.create({
+        data: {
+          playlistAnalysisId,
+          index,
+          size: cluster.size,
+          dominantGenres: cluster.dominantGenres,
+          avgEnergy: cluster.avgEnergy,
+          avgValence: cluster.avgValence,
+        },
+      });
+
+      await db.$executeRaw`
+        UPDATE "PlaylistCluster"
+        SET "centroid" = ${toSqlVector(cluster.centroid)}::vector
+        WHERE "id" = ${stored.id}
+      `;
+    }
+  }
+
+  /**
+   * Stored clusters for a playlist, largest first; empty when it was never clustered
+   */
+  async getClusters(spotifyPlaylistId: string): Promise<StoredPlaylistCluster[]> {
+    const rows = await db.$queryRaw<Array<Omit<SongCluster, 'centroid'> & { index: number; centroid: string | null }>>`
+      SELECT c."index", c."size", c."centroid"::text AS "centroid", c."dominantGenres", c."avgEnergy", c."avgValence"
+      FROM "PlaylistCluster" c
+      JOIN "PlaylistAnalysis" p ON p."id" = c."playlistAnalysisId"
+      WHERE p."spotifyPlaylistId" = ${spotifyPlaylistId} AND c."centroid" IS NOT NULL
+      ORDER BY c."index"
+    `;
+    const total = rows.reduce((sum, row) => sum + row.size, 0);
+
+    return rows.map(row => ({
+      ...row,
+      centroid: parseSqlVector(row.centroid!),
+      share: total > 0 ? row.size / total : 0,
+    }));
+  }
+
+  /**
+   * Cluster a playlist from its songs' stored vectors, e.g. after a backfill changed them
+   */
+  async rebuildClusters(playlistAnalysisId: string, trackIds: string[]): Promise<SongCluster[]> {
+    const songs = await db.$queryRaw<Array<{ vector: string; genres: string[]; energy: number; valence: number }>>`
+      SELECT "combinedVector"::text AS "vector", "genres", "energy", "valence"
+      FROM "Song"
+      WHERE "spotifyId" = ANY(${trackIds}) AND "combinedVector" IS NOT NULL
+    `;
+
+    const clusters = this.cluster(songs.map(song => ({ ...song, vector: parseSqlVector(song.vector) })));
+    await this.saveClusters(playlistAnalysisId, clusters);
+
+    return clusters;
+  }
+
+  /**
+   * Spherical k-means (cosine similarity), seeded deterministically by farthest-first traversal
+   */
+  private kMeans(vectors: number[][], k: number): number[] {
+    const mean = embeddingService.createPlaylistVector(vectors);
+    const seeds = [this.leastSimilarIndex(vectors, [mean])];
+    while (seeds.length < k) {
+      seeds.push(this.leastSimilarIndex(vectors, seeds.map(i => vectors[i]!)));
+    }
+
+    let centroids = seeds.map(i => vectors[i]!);
+    let assignments = vectors.map(() => -1);
+
+    for (let iteration = 0; iteration < MAX_KMEANS_ITERATIONS; iteration++) {
+      const next = vectors.map(vector => this.nearestIndex(vector, centroids));
+      if (next.every((cluster, i) => cluster === assignments[i])) break;
+
+      assignments = next;
+      centroids = centroids.map((centroid, cluster) => {
+        const members = vectors.filter((_, i) => assignments[i] === cluster);
+        // An emptied cluster keeps its previous centroid
+        return members.length > 0 ? embeddingService.createPlaylistVector(members) : centroid;
+      });
+    }
+
+    return assignments;
+  }
+
+  /**
+   * Mean silhouette with cosine distance, over an evenly spaced sample of songs
+   */
+  private meanSilhouette(vectors: number[][], assignments: number[], k: number): number {
+    const step = Math.max(1, Math.floor(vectors.length / SILHOUETTE_SAMPLE_SIZE));
+    const sample = vectors.map((_, i) => i).filter(i => i % step === 0);
+    let total = 0;
+
+    for (const i of sample) {
+      const distances = new Array<number>(k).fill(0);
+      const counts = new Array<number>(k).fill(0);
+
+      for (const j of sample) {
+        if (i === j) continue;
+        const cluster = assignments[j]!;
+        distances[cluster]! += 1 - embeddingService.calculateCosineSimilarity(vectors[i]!, vectors[j]!);
+        counts[cluster]!++;
+      }
+
+      const own = assignments[i]!;
+      const cohesion = counts[own]! > 0 ? distances[own]! / counts[own]! : 0;
+      const separation = Math.min(...distances
+        .map((distance, cluster) => cluster !== own && counts[cluster]! > 0 ? distance / counts[cluster]! : Infinity));
+
+      if (Number.isFinite(separation) && Math.max(cohesion, separation) > 0) {
+        total += (separation - cohesion) / Math.max(cohesion, separation);
+      }
+    }
+
+    return sample.length > 0 ? total / sample.length : 0;
+  }
+
+  private summarize(members: ClusterableSong[]): SongCluster {
+    const genreCounts = new Map<string, number>();
+    for (const genre of members.flatMap(song => song.genres)) {
+      genreCounts.set(genre, (genreCounts.get(genre) ?? 0) + 1);
+    }
+
+    return {
+      centroid: embeddingService.createPlaylistVector(members.map(song => song.vector)),
+      size: members.length,
+      dominantGenres: [...genreCounts.entries()]
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, CLUSTER_GENRE_COUNT)
+        .map(([genre]) => genre),
+      avgEnergy: members.reduce((sum, song) => sum + song.energy, 0) / members.length,
+      avgValence: members.reduce((sum, song) => sum + song.valence, 0) / members.length,
+    };
+  }
+
+  private countSizes(assignments: number[], k: number): number[] {
+    const sizes = new Array<number>(k).fill(0);
+    for (const cluster of assignments) sizes[cluster]!++;
+    return sizes;
+  }
+
+  private nearestIndex(vector: number[], centroids: number[][]): number {
+    let best = 0;
+    let bestSimilarity = -Infinity;
+
+    centroids.forEach((centroid, index) => {
+      const similarity = embeddingService.calculateCosineSimilarity(vector, centroid);
+      if (similarity > bestSimilarity) {
+        bestSimilarity = similarity;
+        best = index;
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Index of the vector least similar to its closest reference vector
+   */
+  private leastSimilarIndex(vectors: number[][], references: number[][]): number {
+    let best = 0;
+    let lowest = Infinity;
+
+    vectors.forEach((vector, index) => {
+      const closest = Math.max(...references.map(reference => embeddingService.calculateCosineSimilarity(vector, reference)));
+      if (closest < lowest) {
+        lowest = closest;
+        best = index;
+      }
+    });
+
+    return best;
+  }
+}
+
+export const playlistClusteringService = new PlaylistClusteringService();
@@ -0,0 +1,82 @@
+/**
+ * Playlist Comparison
+ * Describes what two analyzed playlists have in common and where they differ,
+ * from their aggregated audio features and dominant genres
+ */
+
+import { type PlaylistAnalysis } from "@prisma/client";
+
+export interface PlaylistTraitComparison {
+  sharedGenres: string[];
+  sharedTraits: string[]; // e.g. "Similar energy"
+  differingTraits: string[]; // e.g. "Road Trip is faster (128 vs 96 BPM)"
+}
+
+export type ComparedAnalysis = Pick<PlaylistAnalysis,
+  'name' | 'dominantGenres' | 'avgEnergy' | 'avgDanceability' | 'avgValence' | 'avgAcousticness' |
+  'avgInstrumentalness' | 'avgSpeechiness' | 'avgTempo' | 'avgPopularity'>;
+
+interface Trait {
+  field: keyof Omit<ComparedAnalysis, 'name' | 'dominantGenres'>;
+  label: string; // "Similar <label>"
+  higher: string; // "<playlist> is <higher>"
+  lower: string; // The opposite, for summaries relative to another playlist
+  similarWithin: number;
+  differentBeyond: number;
+  format: (value: number) => string;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const TRAITS: Trait[] = [
+  { field: 'avgEnergy', label: 'energy', higher: 'more energetic', lower: 'calmer', similarWithin: 0.1, differentBeyond: 0.25, format: percent },
+  { field: 'avgDanceability', label: 'danceability', higher: 'more danceable', lower: 'less danceable', similarWithin: 0.1, differentBeyond: 0.25, format: percent },
+  { field: 'avgValence', label: 'mood', higher: 'more upbeat', lower: 'moodier', similarWithin: 0.1, differentBeyond: 0.25, format: percent },
+  { field: 'avgAcousticness', label: 'acousticness', higher: 'more acoustic', lower: 'less acoustic', similarWithin: 0.1, differentBeyond: 0.25, format: percent },
+  { field: 'avgInstrumentalness', label: 'vocals/instrumental mix', higher: 'more instrumental', lower: 'more vocal', similarWithin: 0.1, differentBeyond: 0.25, format: percent },
+  { field: 'avgSpeechiness', label: 'amount of spoken word', higher: 'wordier', lower: 'less wordy', similarWithin: 0.05, differentBeyond: 0.15, format: percent },
+  { field: 'avgTempo', label: 'tempo', higher: 'faster', lower: 'slower', similarWithin: 8, differentBeyond: 20, format: value => `${Math.round(value)} BPM` },
+  { field: 'avgPopularity', label: 'popularity', higher: 'more mainstream', lower: 'more niche', similarWithin: 10, differentBeyond: 25, format: value => `${Math.round(value)}/100` },
+];
+
+export class PlaylistComparisonService {
+
+  /**
+   * Shared genres plus the audio traits that are close (shared) or far apart (differing)
+   */
+  compareTraits(a: ComparedAnalysis, b: ComparedAnalysis): PlaylistTraitComparison {
+    const genresOfB = new Set(b.dominantGenres);
+    const sharedGenres = a.dominantGenres.filter(genre => genresOfB.has(genre));
+    const sharedTraits: string[] = [];
+    const differingTraits: string[] = [];
+
+    for (const trait of TRAITS) {
+      const valueA = a[trait.field];
+      const valueB = b[trait.field];
+      const difference = Math.abs(valueA - valueB);
+
+      if (difference <= trait.similarWithin) {
+        sharedTraits.push(`Similar ${trait.label}`);
+      } else if (difference >= trait.differentBeyond) {
+        const [higher, lower] = valueA > valueB ? [valueA, valueB] : [valueB, valueA];
+        const name = valueA > valueB ? a.name : b.name;
+        differingTraits.push(`${name} is ${trait.higher} (${trait.format(higher)} vs ${trait.format(lower)})`);
+      }
+    }
+
+    return { sharedGenres, sharedTraits, differingTraits };
+  }
+
+  /**
+   * How `other` differs from `base` in a few words, e.g. "more energetic, less acoustic"
+   * Empty when no trait is far enough apart
+   */
+  summarizeDifferences(base: ComparedAnalysis, other: ComparedAnalysis): string {
+    return TRAITS
+      .filter(trait => Math.abs(other[trait.field] - base[trait.field]) >= trait.differentBeyond)
+      .map(trait => other[trait.field] > base[trait.field] ? trait.higher : trait.lower)
+      .join(', ');
+  }
+}
+
+export const playlistComparisonService = new PlaylistComparisonService();
@@ -0,0 +1,126 @@
+/**
+ * Playlist Cover Images
+ * Builds a 2x2 mosaic from the tracks' album art and uploads it as a playlist's
+ * custom cover (requires the ugc-image-upload scope)
+ */
+
+import sharp from "sharp";
+import { db } from "@/server/db";
+import { type SpotifyClient, spotifyClient } from "./spotifyClient";
+
+const COVER_SIZE = 640;
+const TILE_SIZE = COVER_SIZE / 2;
+const MOSAIC_TILES = 4;
+
+// Spotify rejects cover uploads over 256 KB of base64-encoded JPEG
+const MAX_COVER_BASE64_BYTES = 256 * 1024;
+const JPEG_QUALITIES = [85, 70, 55, 40];
+
+export class PlaylistCoverService {
+  constructor(private spotify: SpotifyClient) {}
+
+  /**
+   * Distinct album art URLs for the tracks, in track order
+   * Stored songs are looked up first; the rest come from the Spotify tracks endpoint
+   */
+  async getAlbumArtUrls(trackIds: string[], accessToken: string, limit = MOSAIC_TILES): Promise<string[]> {
+    const songs = await db.song.findMany({
+      where: { spotifyId: { in: trackIds } },
+      select: { spotifyId: true, imageUrl: true },
+    });
+    const imageByTrack = new Map<string, string>();
+    for (const song of songs) {
+      if (song.imageUrl) imageByTrack.set(song.spotifyId, song.imageUrl);
+    }
+
+    const missing = trackIds.filter(id => !imageByTrack.has(id)).slice(0, 50); // Spotify's maximum
+    if (missing.length > 0) {
+      try {
+        const data = await this.spotify.request<{
+          tracks: Array<{ id: string; album: { images: Array<{ url: string }> } } | null>;
+        }>(`/tracks?ids=${missing.join(',')}`, { accessToken });
+
+        for (const track of data.tracks) {
+          const url = track?.album.images[0]?.url;
+          if (track && url) imageByTrack.set(track.id, url);
+        }
+      } catch (error) {
+        console.warn('Failed to fetch album art for cover:', error);
+      }
+    }
+
+    const urls = new Set<string>();
+    for (const id of trackIds) {
+      const url = imageByTrack.get(id);
+      if (url) urls.add(url);
+      if (urls.size >= limit) break;
+    }
+
+    return [...urls];
+  }
+
+  /**
+   * Base64 JPEG mosaic of up to four images; fewer images repeat to fill the grid
+   */
+  async createMosaic(imageUrls: string[]): Promise<string | null> {
+    const tiles: Buffer[] = [];
+
+    for (const url of imageUrls.slice(0, MOSAIC_TILES)) {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) continue;
+
+        const image = Buffer.from(await response.arrayBuffer());
+        tiles.push(await sharp(image).resize(TILE_SIZE, TILE_SIZE, { fit: 'cover' }).toBuffer());
+      } catch (error) {
+        console.warn(`Failed to load cover tile ${url}:`, error);
+      }
+    }
+
+    if (tiles.length === 0) return null;
+
+    const composite = sharp({
+      create: { width: COVER_SIZE, height: COVER_SIZE, channels: 3, background: '#000000' },
+    }).composite(
+      Array.from({ length: MOSAIC_TILES }, (_, i) => ({
+        input: tiles[i % tiles.length]!,
+        left: (i % 2) * TILE_SIZE,
+        top: Math.floor(i / 2) * TILE_SIZE,
+      }))
+    );
+    const mosaic = await composite.png().toBuffer();
+
+    for (const quality of JPEG_QUALITIES) {
+      const jpeg = await sharp(mosaic).jpeg({ quality }).toBuffer();
+      const base64 = jpeg.toString('base64');
+      if (base64.length <= MAX_COVER_BASE64_BYTES) return base64;
+    }
+
+    return null;
+  }
+
+  /**
+   * Generate and upload a mosaic cover for the playlist
+   * A cover is cosmetic, so failures are logged and reported rather than thrown
+   */
+  async uploadMosaicCover(playlistId: string, trackIds: string[], accessToken: string): Promise<boolean> {
+    try {
+      const cover = await this.createMosaic(await this.getAlbumArtUrls(trackIds, accessToken));
+      if (!cover) return false;
+
+      await this.spotify.request(`/playlists/${playlistId}/images`, {
+        method: 'PUT',
+        accessToken,
+        body: cover,
+        contentType: 'image/jpeg',
+      });
+
+      return true;
+    } catch (error) {
+      console.warn(`Failed to upload cover for playlist ${playlistId}:`, error);
+      return false;
+    }
+  }
+}
+
+export const playlistCoverService = new PlaylistCoverService(spotifyClient);
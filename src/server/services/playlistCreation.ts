@@ -0,0 +1,235 @@
+/**
+ * Playlist Creation
+ * Idempotent, resumable playlist saving: each request is keyed by a client-supplied key
+ * and its progress is recorded, so a retry after a failed batch picks up where it stopped
+ * instead of creating a second, half-filled playlist
+ */
+
+import { Prisma, type PlaylistCreation } from "@prisma/client";
+import { db } from "@/server/db";
+import { playlistCoverService } from "./playlistCover";
+import { type PlaylistOrder, playlistSequencingService } from "./playlistSequencing";
+import { type SpotifyClient, spotifyClient } from "./spotifyClient";
+
+// Spotify only allows collaborative playlists that are private
+export const PLAYLIST_VISIBILITY = {
+  public: { public: true, collaborative: false },
+  private: { public: false, collaborative: false },
+  collaborative: { public: false, collaborative: true },
+} as const;
+export type PlaylistVisibility = keyof typeof PLAYLIST_VISIBILITY;
+
+// Spotify caps playlist track writes at 100 URIs per request
+const ADD_TRACKS_BATCH_SIZE = 100;
+
+export interface PlaylistCreationRequest {
+  clientKey: string;
+  name: string;
+  description: string;
+  trackIds: string[];
+  visibility: PlaylistVisibility;
+  order: PlaylistOrder;
+  pinnedTrackIds: string[]; // Kept first in their given order when the tracks are sequenced
+  coverImage: boolean;
+}
+
+export interface PlaylistCreationResult {
+  playlistId: string;
+  playlistUrl: string;
+  name: string;
+  trackCount: number;
+  coverUploaded: boolean;
+}
+
+interface SpotifyCreatedPlaylist {
+  id: string;
+  name: string;
+  external_urls: { spotify: string };
+}
+
+/**
+ * A client key reused for a different set of tracks
+ */
+export class PlaylistCreationConflictError extends Error {
+  constructor(message = 'This key was already used to save a different set of tracks') {
+    super(message);
+    this.name = 'PlaylistCreationConflictError';
+  }
+}
+
+export class PlaylistCreationService {
+  // Retries that arrive while the first attempt is still running wait for it
+  private pending = new Map<string, Promise<PlaylistCreationResult>>();
+
+  constructor(private spotify: SpotifyClient) {}
+
+  /**
+   * Create the playlist, or resume or return the earlier attempt with the same client key
+   */
+  async create(userId: string, accessToken: string, request: PlaylistCreationRequest): Promise<PlaylistCreationResult> {
+    const pendingKey = `${userId}:${request.clientKey}`;
+    const pending = this.pending.get(pendingKey) ?? this.run(userId, accessToken, request)
+      .finally(() => this.pending.delete(pendingKey));
+    this.pending.set(pendingKey, pending);
+
+    return pending;
+  }
+
+  /**
+   * Add tracks in order, in batches of up to 100
+   * `onBatch` is called with the running count after each batch lands
+   */
+  async addTracks(
+    playlistId: string,
+    trackIds: string[],
+    accessToken: string,
+    onBatch?: (added: number) => Promise<unknown>
+  ): Promise<void> {
+    const trackUris = trackIds.map(id => `spotify:track:${id}`);
+
+    for (let i = 0; i < trackUris.length; i += ADD_TRACKS_BATCH_SIZE) {
+      const batch = trackUris.slice(i, i + ADD_TRACKS_BATCH_SIZE);
+
+      try {
+        // Not retried on 5xx: a batch that landed anyway would be added twice
+        await this.spotify.request(`/playlists/${playlistId}/tracks`, {
+          method: 'POST',
+          accessToken,
+          retry: false,
+          body: { uris: batch },
+        });
+      } catch (error) {
+        console.error('Failed to add tracks batch:', batch, error);
+        throw error;
+      }
+
+      await onBatch?.(i + batch.length);
+    }
+  }
+
+  private async run(userId: string, accessToken: string, request: PlaylistCreationRequest): Promise<PlaylistCreationResult> {
+    let creation = await this.findOrStart(userId, request);
+
+    if (creation.completedAt) {
+      return this.toResult(creation);
+    }
+
+    // Step 1: Create the Spotify playlist, once
+    if (!creation.spotifyPlaylistId) {
+      const userData = await this.spotify.request<{ id: string }>('/me', { accessToken });
+      const playlist = await this.spotify.request<SpotifyCreatedPlaylist>(
+        `/users/${userData.id}/playlists`,
+        {
+          method: 'POST',
+          accessToken,
+          retry: false, // A retried create could leave a second, empty playlist
+          body: {
+            name: request.name,
+            description: request.description,
+            ...PLAYLIST_VISIBILITY[request.visibility],
+          },
+        }
+      );
+
+      creation = await db.playlistCreation.update({
+        where: { id: creation.id },
+        data: { spotifyPlaylistId: playlist.id, playlistUrl: playlist.external_urls.spotify, name: playlist.name },
+      });
+    } else {
+      creation = await this.reconcileProgress(creation, accessToken);
+    }
+
+    // Step 2: Add the tracks not added yet, recording progress after every batch
+    const spotifyPlaylistId = creation.spotifyPlaylistId!;
+    const alreadyAdded = creation.tracksAdded;
+    await this.addTracks(
+      spotifyPlaylistId,
+      creation.trackIds.slice(alreadyAdded),
+      accessToken,
+      added => db.playlistCreation.update({
+        where: { id: creation.id },
+        data: { tracksAdded: alreadyAdded + added },
+      })
+    );
+
+    // Step 3: Optional cover art; the playlist is usable without it
+    const coverUploaded = creation.coverUploaded || (request.coverImage &&
+      await playlistCoverService.uploadMosaicCover(spotifyPlaylistId, creation.trackIds, accessToken));
+
+    creation = await db.playlistCreation.update({
+      where: { id: creation.id },
+      data: { tracksAdded: creation.trackIds.length, coverUploaded, completedAt: new Date() },
+    });
+
+    return this.toResult(creation);
+  }
+
+  /**
+   * Load the creation for this key, or record a new one with the tracks in their final order
+   */
+  private async findOrStart(userId: string, request: PlaylistCreationRequest): Promise<PlaylistCreation> {
+    const where = { userId_clientKey: { userId, clientKey: request.clientKey } };
+    const existing = await db.playlistCreation.findUnique({ where });
+
+    if (existing) {
+      this.assertSameTracks(existing, request.trackIds);
+      return existing;
+    }
+
+    const trackIds = await playlistSequencingService.order(request.trackIds, request.order, request.pinnedTrackIds);
+
+    try {
+      return await db.playlistCreation.create({
+        data: { userId, clientKey: request.clientKey, name: request.name, trackIds },
+      });
+    } catch (error) {
+      // Another server instance started the same creation first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const created = await db.playlistCreation.findUniqueOrThrow({ where });
+        this.assertSameTracks(created, request.trackIds);
+        return created;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * A batch can land on Spotify even though its response was lost; trust the playlist's
+   * own track count when it is ahead of the recorded progress
+   */
+  private async reconcileProgress(creation: PlaylistCreation, accessToken: string): Promise<PlaylistCreation> {
+    const playlist = await this.spotify.request<{ tracks: { total: number } }>(
+      `/playlists/${creation.spotifyPlaylistId}?fields=tracks(total)`,
+      { accessToken }
+    );
+    const tracksAdded = Math.min(playlist.tracks.total, creation.trackIds.length);
+
+    if (tracksAdded <= creation.tracksAdded) return creation;
+
+    return db.playlistCreation.update({
+      where: { id: creation.id },
+      data: { tracksAdded },
+    });
+  }
+
+  private assertSameTracks(creation: PlaylistCreation, trackIds: string[]): void {
+    const stored = new Set(creation.trackIds);
+    const requested = new Set(trackIds);
+
+    if (stored.size !== requested.size || [...requested].some(id => !stored.has(id))) {
+      throw new PlaylistCreationConflictError();
+    }
+  }
+
+  private toResult(creation: PlaylistCreation): PlaylistCreationResult {
+    return {
+      playlistId: creation.spotifyPlaylistId!,
+      playlistUrl: creation.playlistUrl!,
+      name: creation.name,
+      trackCount: creation.trackIds.length,
+      coverUploaded: creation.coverUploaded,
+    };
+  }
+}
+
+export const playlistCreationService = new PlaylistCreationService(spotifyClient);
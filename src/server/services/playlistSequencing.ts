@@ -0,0 +1,306 @@
+/**
+ * Playlist Sequencing
+ * Orders a playlist's tracks from the audio features stored on Song. The smooth order
+ * minimizes jarring transitions: harmonically compatible keys on the Camelot wheel,
+ * small tempo changes, and an energy curve that builds up and winds down
+ */
+
+import { db } from "@/server/db";
+
+export const PLAYLIST_ORDERS = ['liked', 'energyArc', 'tempoAscending', 'smooth'] as const;
+export type PlaylistOrder = typeof PLAYLIST_ORDERS[number];
+
+// Greedy walks are quadratic in the track count; longer playlists get the energy arc instead
+export const MAX_SMOOTH_TRACKS = 500;
+
+export interface SequencedTrack {
+  trackId: string;
+  camelot: string | null; // e.g. "8B" for C major, null when no key was detected
+  tempo: number;
+  energy: number;
+}
+
+export interface SequenceTransition {
+  fromTrackId: string;
+  toTrackId: string;
+  keyCompatible: boolean; // Same, adjacent or relative Camelot key
+  tempoDelta: number; // BPM, allowing for half/double time
+  energyDelta: number;
+}
+
+export interface PlaylistSequence {
+  trackIds: string[]; // Pinned tracks, then sequenced tracks, then tracks without stored features in their original order
+  tracks: SequencedTrack[];
+  transitions: SequenceTransition[];
+  unsequencedTrackIds: string[];
+}
+
+interface SequencedSong {
+  spotifyId: string;
+  energy: number;
+  tempo: number;
+  key: number; // Pitch class 0-11, -1 when no key was detected
+  mode: number; // 0 = minor, 1 = major
+}
+
+interface CamelotKey {
+  number: number; // 1-12
+  letter: 'A' | 'B'; // A = minor, B = major
+}
+
+// Relative weights of the three transition costs, each normalized to roughly 0-1
+const TRANSITION_WEIGHTS = { key: 1, tempo: 1, energy: 0.75 };
+// A tempo change this large (in BPM) costs as much as a clash of keys
+const TEMPO_DISTANCE_SCALE = 30;
+// Playing at half or double time is a valid mix, but not quite as smooth as a matched tempo
+const HALF_DOUBLE_TIME_PENALTY_BPM = 4;
+const UNKNOWN_KEY_COST = 0.5;
+// Where along the playlist (0-1) the energy curve peaks
+const ENERGY_PEAK_POSITION = 0.7;
+// Greedy walks tried from the calmest tracks; the cheapest one wins
+const MAX_START_CANDIDATES = 8;
+const MAX_IMPROVEMENT_PASSES = 4;
+// 2-opt is cubic in the track count; longer playlists keep the greedy order
+const MAX_IMPROVED_TRACKS = 150;
+
+export class PlaylistSequencingService {
+
+  /**
+   * Reorder track IDs; pinned tracks stay first in their given order, and tracks without
+   * stored features keep their order at the end
+   */
+  async order(trackIds: string[], order: PlaylistOrder, pinnedTrackIds: string[] = []): Promise<string[]> {
+    // Every order goes through sequence(), so the saved playlist matches the preview
+    return (await this.sequence(trackIds, order, pinnedTrackIds)).trackIds;
+  }
+
+  /**
+   * Order the tracks and describe each transition, so the order can be previewed before saving
+   * Pinned tracks (e.g. super likes) lead in their given order; only the rest are sequenced
+   */
+  async sequence(
+    trackIds: string[],
+    order: PlaylistOrder = 'smooth',
+    pinnedTrackIds: string[] = []
+  ): Promise<PlaylistSequence> {
+    const songs = await db.song.findMany({
+      where: { spotifyId: { in: trackIds } },
+      select: { spotifyId: true, energy: true, tempo: true, key: true, mode: true },
+    });
+    const songById = new Map(songs.map(song => [song.spotifyId, song]));
+
+    const pinnedIds = new Set(pinnedTrackIds);
+    const uniqueTrackIds = [...new Set(trackIds)];
+    const pinned = uniqueTrackIds.filter(id => pinnedIds.has(id));
+    const rest = uniqueTrackIds.filter(id => !pinnedIds.has(id));
+
+    const known = rest.flatMap(id => songById.get(id) ?? []);
+    const unsequencedTrackIds = rest.filter(id => !songById.has(id));
+
+    let ordered: SequencedSong[];
+    switch (order) {
+      case 'liked':
+        ordered = known;
+        break;
+      case 'energyArc':
+        ordered = this.energyArc(known);
+        break;
+      case 'tempoAscending':
+        ordered = [...known].sort((a, b) => a.tempo - b.tempo);
+        break;
+      case 'smooth':
+        ordered = known.length <= MAX_SMOOTH_TRACKS ? this.smoothTransitions(known) : this.energyArc(known);
+        break;
+    }
+
+    // Pinned tracks with stored features are described too, so their transitions show in the preview
+    const described = [...pinned.flatMap(id => songById.get(id) ?? []), ...ordered];
+
+    return {
+      trackIds: [...pinned, ...ordered.map(song => song.spotifyId), ...unsequencedTrackIds],
+      tracks: described.map(song => ({
+        trackId: song.spotifyId,
+        camelot: this.formatCamelot(this.toCamelot(song)),
+        tempo: song.tempo,
+        energy: song.energy,
+      })),
+      transitions: described.slice(1).map((song, i) => {
+        const previous = described[i]!;
+        return {
+          fromTrackId: previous.spotifyId,
+          toTrackId: song.spotifyId,
+          keyCompatible: this.keyCost(previous, song) <= 0.5,
+          tempoDelta: this.tempoDelta(previous, song),
+          energyDelta: song.energy - previous.energy,
+        };
+      }),
+      unsequencedTrackIds,
+    };
+  }
+
+  /**
+   * Build up to the most energetic tracks in the middle, then wind back down
+   */
+  private energyArc(songs: SequencedSong[]): SequencedSong[] {
+    const byEnergy = [...songs].sort((a, b) => a.energy - b.energy);
+    const rising = byEnergy.filter((_, i) => i % 2 === 0);
+    const falling = byEnergy.filter((_, i) => i % 2 === 1).reverse();
+
+    return [...rising, ...falling];
+  }
+
+  /**
+   * Greedy walks from the calmest few tracks, each step taking the cheapest next track,
+   * then 2-opt passes that reverse stretches of the best walk while that lowers its cost
+   */
+  private smoothTransitions(songs: SequencedSong[]): SequencedSong[] {
+    if (songs.length < 3) return [...songs].sort((a, b) => a.energy - b.energy);
+
+    const starts = [...songs]
+      .sort((a, b) => a.energy - b.energy)
+      .slice(0, MAX_START_CANDIDATES);
+
+    let best: SequencedSong[] = songs;
+    let bestCost = Infinity;
+
+    for (const start of starts) {
+      const walk = this.greedyWalk(songs, start);
+      const cost = this.sequenceCost(walk);
+      if (cost < bestCost) {
+        best = walk;
+        bestCost = cost;
+      }
+    }
+
+    return songs.length <= MAX_IMPROVED_TRACKS ? this.improve(best, bestCost) : best;
+  }
+
+  private greedyWalk(songs: SequencedSong[], start: SequencedSong): SequencedSong[] {
+    const remaining = songs.filter(song => song !== start);
+    const walk = [start];
+
+    while (remaining.length > 0) {
+      const current = walk[walk.length - 1]!;
+      const position = walk.length / (songs.length - 1);
+      let bestIndex = 0;
+      let bestCost = Infinity;
+
+      remaining.forEach((candidate, index) => {
+        const cost = this.transitionCost(current, candidate, position);
+        if (cost < bestCost) {
+          bestCost = cost;
+          bestIndex = index;
+        }
+      });
+
+      walk.push(remaining.splice(bestIndex, 1)[0]!);
+    }
+
+    return walk;
+  }
+
+  private improve(sequence: SequencedSong[], cost: number): SequencedSong[] {
+    let best = sequence;
+    let bestCost = cost;
+
+    for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+      let improved = false;
+
+      for (let i = 1; i < best.length - 1; i++) {
+        for (let j = i + 1; j < best.length; j++) {
+          const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+          const candidateCost = this.sequenceCost(candidate);
+
+          if (candidateCost < bestCost) {
+            best = candidate;
+            bestCost = candidateCost;
+            improved = true;
+          }
+        }
+      }
+
+      if (!improved) break;
+    }
+
+    return best;
+  }
+
+  private sequenceCost(sequence: SequencedSong[]): number {
+    let cost = 0;
+    for (let i = 1; i < sequence.length; i++) {
+      cost += this.transitionCost(sequence[i - 1]!, sequence[i]!, i / (sequence.length - 1));
+    }
+    return cost;
+  }
+
+  /**
+   * Cost of playing `to` after `from`, with `to` landing at `position` (0-1) in the playlist
+   */
+  private transitionCost(from: SequencedSong, to: SequencedSong, position: number): number {
+    return TRANSITION_WEIGHTS.key * this.keyCost(from, to) +
+      TRANSITION_WEIGHTS.tempo * Math.min(1, this.tempoDelta(from, to) / TEMPO_DISTANCE_SCALE) +
+      TRANSITION_WEIGHTS.energy * Math.abs(to.energy - this.targetEnergy(position));
+  }
+
+  /**
+   * 0 for the same key, 0.5 for a neighbouring or relative key, up to 1 for a clash
+   */
+  private keyCost(from: SequencedSong, to: SequencedSong): number {
+    const a = this.toCamelot(from);
+    const b = this.toCamelot(to);
+    if (!a || !b) return UNKNOWN_KEY_COST;
+
+    const diff = Math.abs(a.number - b.number);
+    const steps = Math.min(diff, 12 - diff);
+    const letterChange = a.letter !== b.letter;
+
+    if (steps === 0) return letterChange ? 0.5 : 0;
+    if (steps === 1 && !letterChange) return 0.5;
+
+    return Math.min(1, 0.5 + (steps + (letterChange ? 1 : 0)) / 8);
+  }
+
+  /**
+   * Smallest BPM change, counting half and double time as a near match
+   */
+  private tempoDelta(from: SequencedSong, to: SequencedSong): number {
+    const direct = Math.abs(from.tempo - to.tempo);
+    const halfDouble = Math.min(
+      Math.abs(from.tempo * 2 - to.tempo),
+      Math.abs(from.tempo - to.tempo * 2)
+    ) + HALF_DOUBLE_TIME_PENALTY_BPM;
+
+    return Math.min(direct, halfDouble);
+  }
+
+  /**
+   * Target energy along the playlist: a gentle start rising to a peak, then a cool-down
+   */
+  private targetEnergy(position: number): number {
+    const curve = position <= ENERGY_PEAK_POSITION
+      ? position / ENERGY_PEAK_POSITION
+      : (1 - position) / (1 - ENERGY_PEAK_POSITION);
+
+    return 0.35 + 0.5 * curve;
+  }
+
+  /**
+   * Camelot wheel position; relative major and minor keys share a number (C major 8B, A minor 8A)
+   */
+  private toCamelot(song: SequencedSong): CamelotKey | null {
+    if (song.key < 0 || song.key > 11) return null;
+
+    const majorKey = song.mode === 1 ? song.key : (song.key + 3) % 12;
+
+    return {
+      number: ((majorKey * 7) % 12 + 7) % 12 + 1,
+      letter: song.mode === 1 ? 'B' : 'A',
+    };
+  }
+
+  private formatCamelot(camelot: CamelotKey | null): string | null {
+    return camelot ? `${camelot.number}${camelot.letter}` : null;
+  }
+}
+
+export const playlistSequencingService = new PlaylistSequencingService();
@@ -0,0 +1,298 @@
+/**
+ * Preview Resolver
+ * Finds a playable preview for tracks Spotify has no preview_url for. Deezer is matched
+ * by ISRC when the track has one, otherwise by fuzzy title/artist/duration scoring over
+ * search results. Lookups run concurrently up to a cap, and results are cached on the
+ * Song row so decks built from stored songs don't repeat them
+ */
+
+import { db } from "@/server/db";
+
+export interface PreviewRequest {
+  spotifyId: string;
+  name: string;
+  artist: string; // Artist credit as stored or shown, e.g. "Daft Punk, Pharrell Williams"
+  durationMs: number;
+  isrc?: string | null; // Looked up on the Song row when not given
+  previewUrl?: string | null; // Spotify's own preview, used as-is when present
+}
+
+export interface ResolvedPreview {
+  streamUrl: string | null;
+  deezerId: string | null;
+}
+
+interface DeezerTrack {
+  id: number;
+  title: string;
+  duration: number; // Seconds
+  preview: string; // Empty when Deezer has no preview
+  artist: { name: string };
+}
+
+interface CachedPreview {
+  isrc: string | null;
+  streamUrl: string | null;
+  deezerId: string | null;
+  streamResolvedAt: Date | null;
+}
+
+const DEEZER_API_URL = 'https://api.deezer.com';
+// Deezer allows 50 requests per 5 seconds per client
+const MAX_CONCURRENT_LOOKUPS = 5;
+// Deezer preview URLs are signed and expire; the Deezer track ID doesn't, so an expired
+// URL is refreshed with one track lookup instead of a new search
+const STREAM_URL_TTL_MS = 6 * 60 * 60 * 1000;
+// Tracks without a match are retried after this long, in case Deezer adds them
+const NO_MATCH_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEEZER_NO_DATA_ERROR = 800;
+const SEARCH_RESULT_LIMIT = 10;
+// A search hit needs this overall score, and a title at least this close, to count as the same song
+const MIN_MATCH_SCORE = 0.7;
+const MIN_TITLE_SIMILARITY = 0.5;
+const MATCH_WEIGHTS = { title: 0.5, artist: 0.3, duration: 0.2 };
+// Durations within the tolerance score fully, falling to zero at the limit
+const DURATION_TOLERANCE_MS = 2_000;
+const DURATION_LIMIT_MS = 15_000;
+
+// Version and edition suffixes that differ between services for the same recording
+const TITLE_NOISE_PATTERN = /\s*[([][^)\]]*\b(feat|ft|with|remaster(ed)?|version|edit|mono|stereo|live)\b[^)\]]*[)\]]|\s+-\s+.*\b(remaster(ed)?|version|edit|mono|stereo)\b.*$/gi;
+
+export class PreviewResolverService {
+
+  /**
+   * Resolve previews for a batch of tracks, keyed by Spotify ID
+   */
+  async resolveMany(requests: PreviewRequest[]): Promise<Map<string, ResolvedPreview>> {
+    const results = new Map<string, ResolvedPreview>();
+    const pending = new Map<string, PreviewRequest>();
+
+    for (const request of requests) {
+      if (request.previewUrl) {
+        results.set(request.spotifyId, { streamUrl: request.previewUrl, deezerId: null });
+      } else {
+        pending.set(request.spotifyId, request);
+      }
+    }
+
+    if (pending.size === 0) return results;
+
+    const cached = await this.getCached([...pending.keys()]);
+    const lookups: Array<{ request: PreviewRequest; cache: CachedPreview | undefined }> = [];
+
+    for (const request of pending.values()) {
+      const cache = cached.get(request.spotifyId);
+      if (cache && this.isFresh(cache)) {
+        results.set(request.spotifyId, { streamUrl: cache.streamUrl, deezerId: cache.deezerId });
+      } else {
+        lookups.push({ request, cache });
+      }
+    }
+
+    await this.runConcurrently(lookups, async ({ request, cache }) => {
+      const resolved = await this.resolve(request, cache);
+      results.set(request.spotifyId, resolved ?? { streamUrl: null, deezerId: null });
+      // Failed lookups aren't cached, so they're retried on the next deck
+      if (resolved) await this.saveResolved(request.spotifyId, resolved);
+    });
+
+    return results;
+  }
+
+  /**
+   * Look up one track on Deezer; null when a request failed rather than finding no match
+   */
+  private async resolve(request: PreviewRequest, cache: CachedPreview | undefined): Promise<ResolvedPreview | null> {
+    try {
+      // A known Deezer track only needs its signed preview URL refreshed
+      const known = cache?.deezerId ? await this.fetchDeezer<DeezerTrack>(`/track/${cache.deezerId}`) : null;
+      if (known?.preview) return this.toResolved(known);
+
+      const isrc = request.isrc ?? cache?.isrc;
+      if (isrc) {
+        const byIsrc = await this.fetchDeezer<DeezerTrack>(`/track/isrc:${encodeURIComponent(isrc)}`);
+        // The same ISRC can be reused across edits, so the length still has to agree
+        if (byIsrc?.preview && this.durationSimilarity(request.durationMs, byIsrc.duration * 1000) > 0) {
+          return this.toResolved(byIsrc);
+        }
+      }
+
+      return this.toResolved(await this.searchBestMatch(request));
+    } catch (error) {
+      console.warn(`Failed to resolve preview for ${request.spotifyId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Best-scoring Deezer search hit with a preview, or null when none is close enough
+   */
+  private async searchBestMatch(request: PreviewRequest): Promise<DeezerTrack | null> {
+    const title = this.normalize(request.name, true);
+    const primaryArtist = request.artist.split(', ')[0] ?? request.artist;
+    const query = `artist:"${primaryArtist.replace(/"/g, '')}" track:"${title.replace(/"/g, '')}"`;
+
+    let hits = (await this.fetchDeezer<{ data: DeezerTrack[] }>(
+      `/search?q=${encodeURIComponent(query)}&limit=${SEARCH_RESULT_LIMIT}`
+    ))?.data ?? [];
+
+    // Advanced search is strict about spelling; fall back to a plain query
+    if (hits.length === 0) {
+      hits = (await this.fetchDeezer<{ data: DeezerTrack[] }>(
+        `/search?q=${encodeURIComponent(`${primaryArtist} ${title}`)}&limit=${SEARCH_RESULT_LIMIT}`
+      ))?.data ?? [];
+    }
+
+    let best: DeezerTrack | null = null;
+    let bestScore = MIN_MATCH_SCORE;
+
+    for (const hit of hits) {
+      if (!hit.preview) continue;
+
+      const titleSimilarity = this.textSimilarity(title, this.normalize(hit.title, true));
+      if (titleSimilarity < MIN_TITLE_SIMILARITY) continue;
+
+      const score = MATCH_WEIGHTS.title * titleSimilarity +
+        MATCH_WEIGHTS.artist * this.artistSimilarity(request.artist, hit.artist.name) +
+        MATCH_WEIGHTS.duration * this.durationSimilarity(request.durationMs, hit.duration * 1000);
+
+      if (score >= bestScore) {
+        best = hit;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  private async getCached(spotifyIds: string[]): Promise<Map<string, CachedPreview>> {
+    const songs = await db.song.findMany({
+      where: { spotifyId: { in: spotifyIds } },
+      select: { spotifyId: true, isrc: true, streamUrl: true, deezerId: true, streamResolvedAt: true },
+    });
+
+    return new Map(songs.map(({ spotifyId, ...cache }) => [spotifyId, cache]));
+  }
+
+  /**
+   * Cache the result on the Song row; tracks that aren't stored (e.g. search mode) aren't cached
+   */
+  private async saveResolved(spotifyId: string, resolved: ResolvedPreview): Promise<void> {
+    try {
+      await db.song.updateMany({
+        where: { spotifyId },
+        data: { streamUrl: resolved.streamUrl, deezerId: resolved.deezerId, streamResolvedAt: new Date() },
+      });
+    } catch (error) {
+      console.warn(`Failed to cache preview for ${spotifyId}:`, error);
+    }
+  }
+
+  private isFresh(cache: CachedPreview): boolean {
+    if (!cache.streamResolvedAt) return false;
+
+    const age = Date.now() - cache.streamResolvedAt.getTime();
+    return age < (cache.streamUrl ? STREAM_URL_TTL_MS : NO_MATCH_TTL_MS);
+  }
+
+  private toResolved(track: DeezerTrack | null): ResolvedPreview {
+    return track?.preview
+      ? { streamUrl: track.preview, deezerId: String(track.id) }
+      : { streamUrl: null, deezerId: null };
+  }
+
+  /**
+   * GET a Deezer API path; null when Deezer reports the item doesn't exist (e.g. unknown ISRC)
+   * Throws on HTTP and quota errors, so they aren't mistaken for "no match"
+   */
+  private async fetchDeezer<T>(path: string): Promise<T | null> {
+    const response = await fetch(`${DEEZER_API_URL}${path}`);
+    if (!response.ok) {
+      throw new Error(`Deezer API error ${response.status} for ${path}`);
+    }
+
+    // Deezer answers errors with HTTP 200 and an error object; code 800 is "no data"
+    const data = await response.json() as T & { error?: { code?: number; message?: string } };
+    if (data.error) {
+      if (data.error.code === DEEZER_NO_DATA_ERROR) return null;
+      throw new Error(`Deezer API error ${data.error.code}: ${data.error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Run `task` over the items with at most MAX_CONCURRENT_LOOKUPS in flight
+   */
+  private async runConcurrently<T>(items: T[], task: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+      while (next < items.length) {
+        await task(items[next++]!);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_LOOKUPS, items.length) }, worker));
+  }
+
+  /**
+   * Lowercase, strip accents and punctuation, and optionally version suffixes like "(Remastered 2011)"
+   */
+  private normalize(text: string, stripVersion = false): string {
+    const base = stripVersion ? text.replace(TITLE_NOISE_PATTERN, '') : text;
+
+    return base
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/&/g, ' and ')
+      .replace(/[^a-z0-9 ]+/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Dice coefficient over character bigrams (0-1), tolerant of small spelling differences
+   */
+  private textSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (a.length < 2 || b.length < 2) return 0;
+
+    const bigrams = (text: string) => {
+      const counts = new Map<string, number>();
+      for (let i = 0; i < text.length - 1; i++) {
+        const bigram = text.slice(i, i + 2);
+        counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+      }
+      return counts;
+    };
+
+    const countsA = bigrams(a);
+    const countsB = bigrams(b);
+    let overlap = 0;
+    for (const [bigram, count] of countsA) {
+      overlap += Math.min(count, countsB.get(bigram) ?? 0);
+    }
+
+    return (2 * overlap) / (a.length - 1 + b.length - 1);
+  }
+
+  /**
+   * Closest match between Deezer's main artist and any credited artist
+   */
+  private artistSimilarity(credit: string, deezerArtist: string): number {
+    const target = this.normalize(deezerArtist);
+    return Math.max(0, ...credit.split(', ').map(artist => this.textSimilarity(this.normalize(artist), target)));
+  }
+
+  private durationSimilarity(expectedMs: number, actualMs: number): number {
+    if (!expectedMs || !actualMs) return 0.5; // Unknown length neither helps nor rules out a match
+
+    const difference = Math.abs(expectedMs - actualMs);
+    if (difference <= DURATION_TOLERANCE_MS) return 1;
+
+    return Math.max(0, 1 - (difference - DURATION_TOLERANCE_MS) / (DURATION_LIMIT_MS - DURATION_TOLERANCE_MS));
+  }
+}
+
+export const previewResolverService = new PreviewResolverService();
@@ -3,13 +3,18 @@
  * Fetches, processes, and stores songs with vector embeddings
  */
 
+import { type PlaylistAnalysis, type Song } from "@prisma/client";
+import { type SpotifyResource } from "@/lib/spotifyUrl";
 import { db } from "@/server/db";
-import { embeddingService } from "./embedding";
+import { EMBEDDING_VERSION, embeddingService } from "./embedding";
+import { toSqlVector } from "./pgvector";
+import { type ClusterableSong, playlistClusteringService } from "./playlistClustering";
+import { type SpotifyClient, spotifyClient } from "./spotifyClient";
 
 interface SpotifyTrack {
   id: string;
   name: string;
-  artists: Array<{ name: string }>;
+  artists: Array<{ id: string | null; name: string }>; // Local files have no artist ID
   album: {
     name: string;
     release_date: string;
@@ -19,6 +24,7 @@ interface SpotifyTrack {
   duration_ms: number;
   preview_url: string | null;
   external_urls: { spotify: string };
+  external_ids?: { isrc?: string };
 }
 
 interface SpotifyAudioFeatures {
@@ -42,62 +48,51 @@ interface SpotifyArtist {
   genres: string[];
 }
 
-export class SongIngestionService {
-  private spotifyAccessToken: string | null = null;
+// Tracks of a non-playlist deck seed: an album's tracks or an artist's top tracks
+export interface SeedCollection {
+  name: string;
+  trackIds: string[];
+}
 
-  constructor(private clientId: string, private clientSecret: string) {}
+// Album tracks read for an album seed; long compilations are cut off
+const MAX_ALBUM_SEED_TRACKS = 200;
+// Spotify ranks an artist's top tracks per market
+const TOP_TRACKS_MARKET = 'US';
 
-  /**
-   * Get Spotify access token for API calls
-   */
-  private async getSpotifyAccessToken(): Promise<string> {
-    if (this.spotifyAccessToken) {
-      return this.spotifyAccessToken;
-    }
-
-    const response = await fetch('https://accounts.spotify.com/api/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Authorization': `Basic ${Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64')}`,
-      },
-      body: 'grant_type=client_credentials',
-    });
+interface SpotifyPlaylistDetails {
+  id: string;
+  name: string;
+  description: string | null;
+  snapshot_id: string;
+}
 
-    if (!response.ok) {
-      throw new Error('Failed to get Spotify access token');
-    }
+export class SongIngestionService {
+  constructor(private spotify: SpotifyClient) {}
 
-    const data = await response.json() as { access_token: string };
-    this.spotifyAccessToken = data.access_token;
-    return this.spotifyAccessToken;
+  /**
+   * Fetch playlist name, description and snapshot ID
+   */
+  async fetchPlaylistDetails(playlistId: string): Promise<SpotifyPlaylistDetails> {
+    return this.spotify.request<SpotifyPlaylistDetails>(
+      `/playlists/${playlistId}?fields=id,name,description,snapshot_id`
+    );
   }
 
   /**
    * Fetch tracks from a Spotify playlist
    */
   async fetchPlaylistTracks(playlistId: string): Promise<SpotifyTrack[]> {
-    const token = await this.getSpotifyAccessToken();
     const tracks: SpotifyTrack[] = [];
     let offset = 0;
     const limit = 50;
 
     while (true) {
-      const response = await fetch(
-        `https://api.spotify.com/v1/playlists/${playlistId}/tracks?offset=${offset}&limit=${limit}&fields=items(track(id,name,artists(name),album(name,release_date,images),popularity,duration_ms,preview_url,external_urls))`,
-        {
-          headers: { 'Authorization': `Bearer ${token}` },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch playlist tracks: ${response.statusText}`);
-      }
-
-      const data = await response.json() as {
+      const data = await this.spotify.request<{
         items: Array<{ track: SpotifyTrack }>;
         next: string | null;
-      };
+      }>(
+        `/playlists/${playlistId}/tracks?offset=${offset}&limit=${limit}&fields=next,items(track(id,name,artists(id,name),album(name,release_date,images),popularity,duration_ms,preview_url,external_urls,external_ids))`
+      );
 
       tracks.push(...data.items.map(item => item.track).filter(track => track?.id));
 
@@ -108,33 +103,95 @@ export class SongIngestionService {
     return tracks;
   }
 
+  /**
+   * Fetch tracks by ID
+   */
+  async fetchTracks(trackIds: string[]): Promise<SpotifyTrack[]> {
+    const tracks: SpotifyTrack[] = [];
+    const batchSize = 50; // Spotify's maximum for tracks
+
+    for (let i = 0; i < trackIds.length; i += batchSize) {
+      const batch = trackIds.slice(i, i + batchSize);
+      const data = await this.spotify.request<{
+        tracks: (SpotifyTrack | null)[];
+      }>(`/tracks?ids=${batch.join(',')}`);
+
+      tracks.push(...data.tracks.filter((t): t is SpotifyTrack => t !== null));
+    }
+
+    return tracks;
+  }
+
+  /**
+   * Display name of a playlist, album, artist or track
+   * Throws a SpotifyApiError (404 or 400) when it doesn't exist
+   */
+  async fetchResourceName(resource: SpotifyResource): Promise<string> {
+    const path = resource.type === 'playlist'
+      ? `/playlists/${resource.id}?fields=name`
+      : `/${resource.type}s/${resource.id}`;
+    const data = await this.spotify.request<{ name: string }>(path);
+
+    return data.name;
+  }
+
+  /**
+   * An album's tracks or an artist's top tracks, to seed a deck with
+   */
+  async fetchSeedCollection(type: 'album' | 'artist', id: string): Promise<SeedCollection> {
+    if (type === 'artist') {
+      const [artist, topTracks] = await Promise.all([
+        this.spotify.request<{ name: string }>(`/artists/${id}`),
+        this.spotify.request<{ tracks: Array<{ id: string }> }>(`/artists/${id}/top-tracks?market=${TOP_TRACKS_MARKET}`),
+      ]);
+
+      return { name: artist.name, trackIds: topTracks.tracks.map(track => track.id) };
+    }
+
+    const album = await this.spotify.request<{
+      name: string;
+      artists: Array<{ name: string }>;
+      tracks: { items: Array<{ id: string }>; next: string | null };
+    }>(`/albums/${id}`);
+    const trackIds = album.tracks.items.map(track => track.id);
+    let hasMore = album.tracks.next !== null;
+    const limit = 50;
+
+    while (hasMore && trackIds.length < MAX_ALBUM_SEED_TRACKS) {
+      const data = await this.spotify.request<{
+        items: Array<{ id: string }>;
+        next: string | null;
+      }>(`/albums/${id}/tracks?offset=${trackIds.length}&limit=${limit}`);
+
+      trackIds.push(...data.items.map(track => track.id));
+      hasMore = data.next !== null && data.items.length > 0;
+    }
+
+    return {
+      name: `${album.name} by ${album.artists.map(artist => artist.name).join(', ')}`,
+      trackIds: trackIds.slice(0, MAX_ALBUM_SEED_TRACKS),
+    };
+  }
+
   /**
    * Fetch audio features for multiple tracks
    */
   async fetchAudioFeatures(trackIds: string[]): Promise<SpotifyAudioFeatures[]> {
-    const token = await this.getSpotifyAccessToken();
     const features: SpotifyAudioFeatures[] = [];
     const batchSize = 100; // Spotify's maximum
 
     for (let i = 0; i < trackIds.length; i += batchSize) {
       const batch = trackIds.slice(i, i + batchSize);
-      const response = await fetch(
-        `https://api.spotify.com/v1/audio-features?ids=${batch.join(',')}`,
-        {
-          headers: { 'Authorization': `Bearer ${token}` },
-        }
-      );
 
-      if (!response.ok) {
-        console.error(`Failed to fetch audio features for batch: ${response.statusText}`);
-        continue;
-      }
-
-      const data = await response.json() as {
-        audio_features: (SpotifyAudioFeatures | null)[];
-      };
+      try {
+        const data = await this.spotify.request<{
+          audio_features: (SpotifyAudioFeatures | null)[];
+        }>(`/audio-features?ids=${batch.join(',')}`);
 
-      features.push(...data.audio_features.filter((f): f is SpotifyAudioFeatures => f !== null));
+        features.push(...data.audio_features.filter((f): f is SpotifyAudioFeatures => f !== null));
+      } catch (error) {
+        console.error('Failed to fetch audio features for batch:', error);
+      }
     }
 
     return features;
@@ -144,29 +201,21 @@ export class SongIngestionService {
    * Fetch artist information to get genres
    */
   async fetchArtists(artistIds: string[]): Promise<SpotifyArtist[]> {
-    const token = await this.getSpotifyAccessToken();
     const artists: SpotifyArtist[] = [];
     const batchSize = 50; // Spotify's maximum for artists
 
     for (let i = 0; i < artistIds.length; i += batchSize) {
       const batch = artistIds.slice(i, i + batchSize);
-      const response = await fetch(
-        `https://api.spotify.com/v1/artists?ids=${batch.join(',')}`,
-        {
-          headers: { 'Authorization': `Bearer ${token}` },
-        }
-      );
-
-      if (!response.ok) {
-        console.error(`Failed to fetch artists for batch: ${response.statusText}`);
-        continue;
-      }
 
-      const data = await response.json() as {
-        artists: SpotifyArtist[];
-      };
+      try {
+        const data = await this.spotify.request<{
+          artists: (SpotifyArtist | null)[];
+        }>(`/artists?ids=${batch.join(',')}`);
 
-      artists.push(...data.artists);
+        artists.push(...data.artists.filter((a): a is SpotifyArtist => a !== null));
+      } catch (error) {
+        console.error('Failed to fetch artists for batch:', error);
+      }
     }
 
     return artists;
@@ -184,9 +233,20 @@ export class SongIngestionService {
       // Check if song already exists
       const existing = await db.song.findUnique({
         where: { spotifyId: track.id },
+        select: { id: true, genres: true, embeddingVersion: true, genreEmbeddingVersion: true },
       });
+      const genreEmbeddingVersion = embeddingService.getGenreEmbeddingVersion();
 
-      if (existing) {
+      const genresChanged = !!existing && (
+        existing.genres.length !== genres.length ||
+        existing.genres.some(genre => !genres.includes(genre))
+      );
+
+      if (
+        existing && !genresChanged &&
+        existing.embeddingVersion === EMBEDDING_VERSION &&
+        existing.genreEmbeddingVersion === genreEmbeddingVersion
+      ) {
         console.log(`Song ${track.name} already exists, skipping...`);
         return;
       }
@@ -210,9 +270,16 @@ export class SongIngestionService {
         // Invalid date, keep as null
       }
 
-      // Store in database
-      await db.song.create({
-        data: {
+      // Store in database, refreshing songs stored with outdated genres or vectors
+      const song = await db.song.upsert({
+        where: { spotifyId: track.id },
+        update: {
+          genres,
+          isrc: track.external_ids?.isrc ?? null,
+          embeddingVersion: EMBEDDING_VERSION,
+          genreEmbeddingVersion,
+        },
+        create: {
           spotifyId: track.id,
           name: track.name,
           artist: track.artists.map(a => a.name).join(', '),
@@ -240,31 +307,58 @@ export class SongIngestionService {
           releaseDate,
           durationMs: track.duration_ms,
           genres,
-          
-          // Vectors (stored as JSON arrays)
-          audioFeatureVector: audioFeatureVector,
-          genreVector: genreVector,
-          combinedVector: combinedVector,
+          isrc: track.external_ids?.isrc ?? null,
+          embeddingVersion: EMBEDDING_VERSION,
+          genreEmbeddingVersion,
         },
       });
 
+      // Vector columns are Unsupported in Prisma, so write them with raw SQL
+      await db.$executeRaw`
+        UPDATE "Song"
+        SET "audioFeatureVector" = ${toSqlVector(audioFeatureVector)}::vector,
+            "genreVector" = ${toSqlVector(genreVector)}::vector,
+            "combinedVector" = ${toSqlVector(combinedVector)}::vector
+        WHERE "id" = ${song.id}
+      `;
+
       console.log(`Processed and stored: ${track.name} by ${track.artists.map(a => a.name).join(', ')}`);
     } catch (error) {
       console.error(`Error processing song ${track.name}:`, error);
     }
   }
 
+  /**
+   * Stored analysis for a playlist, without re-fetching it from Spotify
+   */
+  async getPlaylistAnalysis(spotifyPlaylistId: string): Promise<PlaylistAnalysis | null> {
+    return db.playlistAnalysis.findUnique({
+      where: { spotifyPlaylistId },
+    });
+  }
+
+  /**
+   * Stored song by Spotify track ID
+   */
+  async getSong(spotifyId: string): Promise<Song | null> {
+    return db.song.findUnique({
+      where: { spotifyId },
+    });
+  }
+
   /**
    * Process an entire playlist and store all songs
    */
   async ingestPlaylist(playlistId: string): Promise<{
     totalTracks: number;
     processedTracks: number;
-    playlistAnalysis: unknown;
+    trackIds: string[];
+    playlistAnalysis: PlaylistAnalysis;
   }> {
     console.log(`Starting ingestion for playlist: ${playlistId}`);
 
-    // Fetch playlist tracks
+    // Fetch playlist metadata and tracks
+    const details = await this.fetchPlaylistDetails(playlistId);
     const tracks = await this.fetchPlaylistTracks(playlistId);
     console.log(`Found ${tracks.length} tracks in playlist`);
 
@@ -272,20 +366,99 @@ export class SongIngestionService {
       throw new Error('No tracks found in playlist');
     }
 
-    // Fetch audio features
     const trackIds = tracks.map(t => t.id);
-    const audioFeatures = await this.fetchAudioFeatures(trackIds);
+
+    // Skip re-analysis when the playlist hasn't changed, so cached similarities stay valid
+    const existingAnalysis = await db.playlistAnalysis.findUnique({
+      where: { spotifyPlaylistId: details.id },
+    });
+    const genreEmbeddingVersion = await embeddingService.loadGenreEmbeddings();
+
+    if (
+      existingAnalysis?.snapshotId === details.snapshot_id &&
+      existingAnalysis.embeddingVersion === EMBEDDING_VERSION &&
+      existingAnalysis.genreEmbeddingVersion === genreEmbeddingVersion
+    ) {
+      console.log(`Playlist ${playlistId} unchanged since last analysis, skipping...`);
+      return {
+        totalTracks: tracks.length,
+        processedTracks: 0,
+        trackIds,
+        playlistAnalysis: existingAnalysis,
+      };
+    }
+
+    const { processedCount, audioFeatures, trackGenres } = await this.processTracks(tracks);
+
+    // Create playlist analysis
+    const playlistAnalysis = await this.createPlaylistAnalysis(details, tracks, audioFeatures, trackGenres);
+
+    console.log(`Ingestion complete: ${processedCount}/${tracks.length} tracks processed`);
+
+    return {
+      totalTracks: tracks.length,
+      processedTracks: processedCount,
+      trackIds,
+      playlistAnalysis,
+    };
+  }
+
+  /**
+   * Store individual tracks that aren't embedded yet, e.g. the seed of a song-based deck
+   * Returns the IDs of the requested tracks that are stored with a vector afterwards
+   */
+  async ingestTracks(trackIds: string[]): Promise<string[]> {
+    const genreEmbeddingVersion = await embeddingService.loadGenreEmbeddings();
+    const stored = await db.song.findMany({
+      where: { spotifyId: { in: trackIds }, embeddingVersion: EMBEDDING_VERSION, genreEmbeddingVersion },
+      select: { spotifyId: true },
+    });
+    const storedIds = new Set(stored.map(song => song.spotifyId));
+    const missingIds = trackIds.filter(id => !storedIds.has(id));
+
+    if (missingIds.length > 0) {
+      const tracks = await this.fetchTracks(missingIds);
+      const { processedCount } = await this.processTracks(tracks);
+      console.log(`Ingested ${processedCount}/${missingIds.length} tracks`);
+    }
+
+    const embedded = await db.$queryRaw<Array<{ spotifyId: string }>>`
+      SELECT "spotifyId" FROM "Song"
+      WHERE "spotifyId" = ANY(${trackIds}) AND "combinedVector" IS NOT NULL
+    `;
+    const embeddedIds = new Set(embedded.map(song => song.spotifyId));
+
+    return trackIds.filter(id => embeddedIds.has(id));
+  }
+
+  /**
+   * Fetch audio features and artist genres for the tracks, then embed and store each one
+   */
+  private async processTracks(tracks: SpotifyTrack[]): Promise<{
+    processedCount: number;
+    audioFeatures: SpotifyAudioFeatures[];
+    trackGenres: Map<string, string[]>;
+  }> {
+    // Make sure songs are embedded with the latest learned genre space
+    await embeddingService.loadGenreEmbeddings();
+
+    // Fetch audio features
+    const audioFeatures = await this.fetchAudioFeatures(tracks.map(t => t.id));
     console.log(`Fetched audio features for ${audioFeatures.length} tracks`);
 
     // Get all unique artist IDs and fetch their genres
-    const artistIds = [...new Set(tracks.flatMap(t => t.artists.map(a => a.name)))];
-    const artistMap = new Map<string, string[]>();
-    
-    // For simplicity, we'll use a basic genre mapping for now
-    // In production, you'd fetch actual artist data from Spotify
-    for (const artistName of artistIds) {
-      artistMap.set(artistName, this.inferGenresFromArtistName(artistName));
-    }
+    const artistIds = [...new Set(
+      tracks.flatMap(t => t.artists.map(a => a.id).filter((id): id is string => !!id))
+    )];
+    const artists = await this.fetchArtists(artistIds);
+    const artistGenres = new Map(artists.map(a => [a.id, a.genres]));
+    console.log(`Fetched genres for ${artists.length}/${artistIds.length} artists`);
+
+    // A track's genres are the union of its artists' genres
+    const trackGenres = new Map(tracks.map(t => [
+      t.id,
+      [...new Set(t.artists.flatMap(a => (a.id ? artistGenres.get(a.id) : undefined) ?? []))],
+    ]));
 
     // Process each song
     let processedCount = 0;
@@ -298,32 +471,22 @@ export class SongIngestionService {
         continue;
       }
 
-      const trackGenres = [...new Set(track.artists.flatMap(a => artistMap.get(a.name) ?? []))];
-      
-      await this.processSong(track, trackAudioFeatures, trackGenres);
+      await this.processSong(track, trackAudioFeatures, trackGenres.get(track.id) ?? []);
       processedCount++;
     }
 
-    // Create playlist analysis
-    const playlistAnalysis = await this.createPlaylistAnalysis(playlistId, tracks, audioFeatures);
-
-    console.log(`Ingestion complete: ${processedCount}/${tracks.length} tracks processed`);
-
-    return {
-      totalTracks: tracks.length,
-      processedTracks: processedCount,
-      playlistAnalysis,
-    };
+    return { processedCount, audioFeatures, trackGenres };
   }
 
   /**
    * Create aggregated playlist analysis
    */
   private async createPlaylistAnalysis(
-    playlistId: string,
+    details: SpotifyPlaylistDetails,
     tracks: SpotifyTrack[],
-    audioFeatures: SpotifyAudioFeatures[]
-  ) {
+    audioFeatures: SpotifyAudioFeatures[],
+    trackGenres: Map<string, string[]>
+  ): Promise<PlaylistAnalysis> {
     if (audioFeatures.length === 0) {
       throw new Error('No audio features available for playlist analysis');
     }
@@ -351,10 +514,8 @@ export class SongIngestionService {
     const dominantKey = this.getMostFrequent(keys);
     const dominantTimeSignature = this.getMostFrequent(timeSignatures);
 
-    // Get all genres from tracks
-    const allGenres = tracks.flatMap(t => 
-      t.artists.flatMap(a => this.inferGenresFromArtistName(a.name))
-    );
+    // Count each genre once per track
+    const allGenres = tracks.flatMap(t => trackGenres.get(t.id) ?? []);
     const genreFreq = this.getFrequencyMap(allGenres);
     const dominantGenres = Object.entries(genreFreq)
       .sort(([,a], [,b]) => b - a)
@@ -362,28 +523,32 @@ export class SongIngestionService {
       .map(([genre]) => genre);
 
     // Create playlist vector by averaging song vectors
-    const songVectors: number[][] = [];
+    const songs: ClusterableSong[] = [];
     for (const track of tracks) {
       const audioFeature = audioFeatures.find(af => af.id === track.id);
       if (audioFeature) {
-        const genres = track.artists.flatMap(a => this.inferGenresFromArtistName(a.name));
+        const genres = trackGenres.get(track.id) ?? [];
         const vector = embeddingService.createCombinedVector({
           track,
           audioFeatures: audioFeature,
           genres,
         });
-        songVectors.push(vector);
+        songs.push({ vector, genres, energy: audioFeature.energy, valence: audioFeature.valence });
       }
     }
 
-    const playlistVector = embeddingService.createPlaylistVector(songVectors);
+    const playlistVector = embeddingService.createPlaylistVector(songs.map(song => song.vector));
 
     // Store playlist analysis
     const analysis = await db.playlistAnalysis.upsert({
-      where: { spotifyPlaylistId: playlistId },
+      where: { spotifyPlaylistId: details.id },
       create: {
-        spotifyPlaylistId: playlistId,
-        name: `Playlist ${playlistId}`,
+        spotifyPlaylistId: details.id,
+        snapshotId: details.snapshot_id,
+        embeddingVersion: EMBEDDING_VERSION,
+        genreEmbeddingVersion: embeddingService.getGenreEmbeddingVersion(),
+        name: details.name,
+        description: details.description,
         avgAcousticness: avgFeatures.acousticness,
         avgDanceability: avgFeatures.danceability,
         avgEnergy: avgFeatures.energy,
@@ -398,11 +563,16 @@ export class SongIngestionService {
         dominantKey,
         dominantMode,
         dominantTimeSignature,
-        playlistVector: playlistVector,
+        trackIds: tracks.map(t => t.id),
         trackCount: tracks.length,
         totalDurationMs: BigInt(tracks.reduce((sum, t) => sum + t.duration_ms, 0)),
       },
       update: {
+        snapshotId: details.snapshot_id,
+        embeddingVersion: EMBEDDING_VERSION,
+        genreEmbeddingVersion: embeddingService.getGenreEmbeddingVersion(),
+        name: details.name,
+        description: details.description,
         avgAcousticness: avgFeatures.acousticness,
         avgDanceability: avgFeatures.danceability,
         avgEnergy: avgFeatures.energy,
@@ -417,36 +587,43 @@ export class SongIngestionService {
         dominantKey,
         dominantMode,
         dominantTimeSignature,
-        playlistVector: playlistVector,
+        trackIds: tracks.map(t => t.id),
         trackCount: tracks.length,
         totalDurationMs: BigInt(tracks.reduce((sum, t) => sum + t.duration_ms, 0)),
       },
     });
 
+    await db.$executeRaw`
+      UPDATE "PlaylistAnalysis"
+      SET "playlistVector" = ${toSqlVector(playlistVector)}::vector
+      WHERE "id" = ${analysis.id}
+    `;
+
+    // Mixed playlists also get one centroid per style
+    await playlistClusteringService.saveClusters(analysis.id, playlistClusteringService.cluster(songs));
+
     return analysis;
   }
 
   /**
-   * Basic genre inference from artist name (simplified)
-   * In production, you'd use actual Spotify artist data
+   * Most common item, returned as the item itself (e.g. a number for the Int key/mode columns);
+   * ties go to the item seen first
    */
-  private inferGenresFromArtistName(artistName: string): string[] {
-    const name = artistName.toLowerCase();
-    
-    // Very basic heuristics - in production, use actual Spotify artist genres
-    if (name.includes('dj') || name.includes('electronic')) return ['electronic', 'dance'];
-    if (name.includes('rock') || name.includes('metal')) return ['rock'];
-    if (name.includes('rap') || name.includes('hip')) return ['hip hop', 'rap'];
-    if (name.includes('jazz')) return ['jazz'];
-    if (name.includes('classical')) return ['classical'];
-    
-    return ['pop']; // Default fallback
-  }
-
   private getMostFrequent<T>(arr: T[]): T | null {
-    if (arr.length === 0) return null;
-    const freq = this.getFrequencyMap(arr);
-    return Object.entries(freq).reduce((a, b) => (freq[a[0]] ?? 0) > (freq[b[0]] ?? 0) ? a : b)[0] as T;
+    const counts = new Map<T, number>();
+    for (const item of arr) {
+      counts.set(item, (counts.get(item) ?? 0) + 1);
+    }
+
+    let best: T | null = null;
+    let bestCount = 0;
+    for (const [item, count] of counts) {
+      if (count > bestCount) {
+        best = item;
+        bestCount = count;
+      }
+    }
+    return best;
   }
 
   private getFrequencyMap<T>(arr: T[]): Record<string, number> {
@@ -460,7 +637,4 @@ export class SongIngestionService {
 }
 
 // Create service instance
-export const songIngestionService = new SongIngestionService(
-  process.env.SPOTIFY_CLIENT_ID!,
-  process.env.SPOTIFY_CLIENT_SECRET!
-);
\ No newline at end of file
+export const songIngestionService = new SongIngestionService(spotifyClient);
\ No newline at end of file
@@ -0,0 +1,242 @@
+/**
+ * Spotify Web API Client
+ * Shared by routers and services: caches access tokens until they expire,
+ * retries rate-limited (429) and failed (5xx) requests, and supports base-URL
+ * overrides so it can be pointed at a local mock server
+ */
+
+import { env } from "@/env";
+
+export interface SpotifyClientOptions {
+  clientId: string;
+  clientSecret: string;
+  apiBaseUrl?: string; // Defaults to https://api.spotify.com/v1
+  accountsBaseUrl?: string; // Defaults to https://accounts.spotify.com
+  maxRetries?: number; // Retries per request for 429, 5xx and network errors
+}
+
+export interface SpotifyRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown; // Serialized as JSON, unless contentType is set
+  contentType?: string; // Send a string body as-is with this Content-Type, e.g. base64 image/jpeg
+  accessToken?: string; // Act as the user this token belongs to instead of the app
+  retry?: boolean; // False for non-idempotent writes: only 429s are retried, since Spotify didn't apply them
+}
+
+export interface SpotifyTokenResponse {
+  access_token: string;
+  token_type: string;
+  scope?: string;
+  expires_in: number; // Seconds
+  refresh_token?: string; // Spotify may rotate refresh tokens; absent means keep the old one
+}
+
+export class SpotifyApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'SpotifyApiError';
+  }
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number; // Epoch ms
+}
+
+// Refresh tokens slightly before Spotify expires them
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+const BASE_BACKOFF_MS = 500;
+const DEFAULT_RETRY_AFTER_SECONDS = 1;
+
+export class SpotifyClient {
+  private readonly apiBaseUrl: string;
+  private readonly accountsBaseUrl: string;
+  private readonly maxRetries: number;
+
+  // Client credentials (app) token
+  private appToken: CachedToken | null = null;
+  private pendingAppToken: Promise<string> | null = null;
+
+  constructor(private readonly options: SpotifyClientOptions) {
+    this.apiBaseUrl = (options.apiBaseUrl ?? 'https://api.spotify.com/v1').replace(/\/$/, '');
+    this.accountsBaseUrl = (options.accountsBaseUrl ?? 'https://accounts.spotify.com').replace(/\/$/, '');
+    this.maxRetries = options.maxRetries ?? 3;
+  }
+
+  /**
+   * Call a Web API endpoint and parse the JSON response
+   * `path` is relative to the API base URL, e.g. `/playlists/{id}/tracks?limit=50`
+   */
+  async request<T>(path: string, options: SpotifyRequestOptions = {}): Promise<T> {
+    const { method = 'GET', body, contentType, retry = true } = options;
+    let retriedUnauthorized = false;
+
+    while (true) {
+      const accessToken = options.accessToken ?? await this.getAccessToken();
+      const response = await this.fetchWithRetry(`${this.apiBaseUrl}${path}`, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          ...(body !== undefined ? { 'Content-Type': contentType ?? 'application/json' } : {}),
+        },
+        body: body === undefined ? undefined : contentType ? body as string : JSON.stringify(body),
+      }, retry);
+
+      // An app token revoked before its expiry: drop it and try once more with a fresh one
+      if (response.status === 401 && !options.accessToken && !retriedUnauthorized) {
+        this.appToken = null;
+        retriedUnauthorized = true;
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new SpotifyApiError(
+          `Spotify ${method} ${path.split('?')[0]} failed: ${response.status} ${response.statusText}`,
+          response.status
+        );
+      }
+
+      if (response.status === 204) {
+        return undefined as T;
+      }
+
+      const text = await response.text();
+      return (text ? JSON.parse(text) : undefined) as T;
+    }
+  }
+
+  /**
+   * Get the app's client credentials access token, from cache while it is still valid
+   */
+  async getAccessToken(): Promise<string> {
+    if (this.appToken && this.appToken.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+      return this.appToken.accessToken;
+    }
+
+    // Concurrent requests share one token fetch
+    this.pendingAppToken ??= this.requestToken(new URLSearchParams({ grant_type: 'client_credentials' }))
+      .then(data => {
+        this.appToken = {
+          accessToken: data.access_token,
+          expiresAt: Date.now() + data.expires_in * 1000,
+        };
+        return data.access_token;
+      })
+      .finally(() => {
+        this.pendingAppToken = null;
+      });
+
+    return this.pendingAppToken;
+  }
+
+  /**
+   * URL of Spotify's consent page for the Authorization Code + PKCE flow
+   */
+  getAuthorizeUrl(params: { redirectUri: string; scopes: string[]; state: string; codeChallenge: string }): string {
+    const query = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.options.clientId,
+      redirect_uri: params.redirectUri,
+      scope: params.scopes.join(' '),
+      state: params.state,
+      code_challenge_method: 'S256',
+      code_challenge: params.codeChallenge,
+    });
+
+    return `${this.accountsBaseUrl}/authorize?${query.toString()}`;
+  }
+
+  /**
+   * Exchange an authorization code from the PKCE login redirect for user tokens
+   */
+  async exchangeAuthorizationCode(code: string, codeVerifier: string, redirectUri: string): Promise<SpotifyTokenResponse> {
+    return this.requestToken(new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: this.options.clientId,
+      code_verifier: codeVerifier,
+    }));
+  }
+
+  /**
+   * Get a fresh user access token; callers persist it, and any rotated refresh token
+   */
+  async refreshUserToken(refreshToken: string): Promise<SpotifyTokenResponse> {
+    return this.requestToken(new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      client_id: this.options.clientId,
+    }));
+  }
+
+  private async requestToken(body: URLSearchParams): Promise<SpotifyTokenResponse> {
+    const response = await this.fetchWithRetry(`${this.accountsBaseUrl}/api/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Authorization': `Basic ${Buffer.from(`${this.options.clientId}:${this.options.clientSecret}`).toString('base64')}`,
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      throw new SpotifyApiError(
+        `Failed to get Spotify access token (${body.get('grant_type')}): ${response.status} ${response.statusText}`,
+        response.status
+      );
+    }
+
+    return await response.json() as SpotifyTokenResponse;
+  }
+
+  /**
+   * fetch() that waits out 429s (honoring Retry-After) and backs off exponentially on 5xx
+   * and network errors; the last response is returned once retries run out
+   * With `retryFailures` off, 5xx and network errors are returned/thrown at once, as the
+   * request may have been applied
+   */
+  private async fetchWithRetry(url: string, init: RequestInit, retryFailures = true): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+
+      try {
+        response = await fetch(url, init);
+      } catch (error) {
+        if (!retryFailures || attempt >= this.maxRetries) throw error;
+        await this.sleep(BASE_BACKOFF_MS * 2 ** attempt);
+        continue;
+      }
+
+      if (attempt >= this.maxRetries) {
+        return response;
+      }
+
+      if (response.status === 429) {
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        const seconds = Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : DEFAULT_RETRY_AFTER_SECONDS;
+        console.warn(`Spotify rate limit hit, retrying in ${seconds}s`);
+        await this.sleep(seconds * 1000);
+        continue;
+      }
+
+      if (response.status >= 500 && retryFailures) {
+        await this.sleep(BASE_BACKOFF_MS * 2 ** attempt);
+        continue;
+      }
+
+      return response;
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export const spotifyClient = new SpotifyClient({
+  clientId: env.SPOTIFY_CLIENT_ID,
+  clientSecret: env.SPOTIFY_CLIENT_SECRET,
+  apiBaseUrl: env.SPOTIFY_API_BASE_URL,
+  accountsBaseUrl: env.SPOTIFY_ACCOUNTS_BASE_URL,
+});
@@ -0,0 +1,120 @@
+/**
+ * Swipe History
+ * Persists every swipe per listener and source playlist, so a deck can resume
+ * after a refresh and judged tracks aren't recommended again
+ */
+
+import { type Prisma, type SwipeDirection } from "@prisma/client";
+import { db } from "@/server/db";
+
+// Signed-in listeners are identified by user, signed-out ones by a server-issued anonymous ID
+export type SwipeOwner = { userId: string } | { anonymousId: string };
+
+export interface SwipeInput {
+  sourcePlaylistId: string;
+  trackId: string;
+  direction: SwipeDirection;
+  dwellMs: number;
+  position: number;
+  track: Prisma.InputJsonValue;
+}
+
+export class SwipeHistoryService {
+
+  /**
+   * Resolve who is swiping: the session user when signed in, otherwise the anonymous ID
+   */
+  getOwner(userId: string | undefined, anonymousId: string | null): SwipeOwner | null {
+    if (userId) return { userId };
+    if (anonymousId) return { anonymousId };
+    return null;
+  }
+
+  /**
+   * Record a swipe; judging the same track again replaces the earlier swipe
+   */
+  async record(owner: SwipeOwner, swipe: SwipeInput) {
+    const { sourcePlaylistId, trackId } = swipe;
+    const where: Prisma.SwipeWhereUniqueInput = 'userId' in owner
+      ? { userId_sourcePlaylistId_trackId: { userId: owner.userId, sourcePlaylistId, trackId } }
+      : { anonymousId_sourcePlaylistId_trackId: { anonymousId: owner.anonymousId, sourcePlaylistId, trackId } };
+
+    return db.swipe.upsert({ where, update: swipe, create: { ...owner, ...swipe } });
+  }
+
+  /**
+   * Change a swipe's direction in place, e.g. when a "maybe" is reviewed into a like or pass
+   */
+  async setDirection(owner: SwipeOwner, sourcePlaylistId: string, trackId: string, direction: SwipeDirection): Promise<number> {
+    const { count } = await db.swipe.updateMany({
+      where: { ...owner, sourcePlaylistId, trackId },
+      data: { direction },
+    });
+
+    return count;
+  }
+
+  /**
+   * Take back a swipe, so the track counts as unseen again
+   */
+  async remove(owner: SwipeOwner, sourcePlaylistId: string, trackId: string): Promise<number> {
+    const { count } = await db.swipe.deleteMany({
+      where: { ...owner, sourcePlaylistId, trackId },
+    });
+
+    return count;
+  }
+
+  /**
+   * All swipes for a source playlist, in swipe order
+   */
+  async list(owner: SwipeOwner, sourcePlaylistId: string) {
+    return db.swipe.findMany({
+      where: { ...owner, sourcePlaylistId },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async getJudgedTrackIds(owner: SwipeOwner, sourcePlaylistId: string): Promise<string[]> {
+    const swipes = await db.swipe.findMany({
+      where: { ...owner, sourcePlaylistId },
+      select: { trackId: true },
+    });
+
+    return swipes.map(swipe => swipe.trackId);
+  }
+
+  /**
+   * Move swipes made while signed out onto the user's history after they sign in
+   */
+  async claimAnonymousSwipes(anonymousId: string, userId: string): Promise<number> {
+    const anonymousSwipes = await db.swipe.findMany({
+      where: { anonymousId, userId: null },
+      select: { id: true, sourcePlaylistId: true, trackId: true },
+    });
+
+    if (anonymousSwipes.length === 0) return 0;
+
+    // Tracks the user already judged while signed in keep their signed-in swipe
+    const userSwipes = await db.swipe.findMany({
+      where: { userId, trackId: { in: anonymousSwipes.map(swipe => swipe.trackId) } },
+      select: { sourcePlaylistId: true, trackId: true },
+    });
+    const judged = new Set(userSwipes.map(swipe => `${swipe.sourcePlaylistId}:${swipe.trackId}`));
+    const duplicateIds = anonymousSwipes
+      .filter(swipe => judged.has(`${swipe.sourcePlaylistId}:${swipe.trackId}`))
+      .map(swipe => swipe.id);
+
+    const [, { count }] = await db.$transaction([
+      db.swipe.deleteMany({ where: { id: { in: duplicateIds } } }),
+      db.swipe.updateMany({
+        where: { anonymousId, userId: null },
+        data: { userId, anonymousId: null },
+      }),
+    ]);
+
+    return count;
+  }
+}
+
+export const swipeHistoryService = new SwipeHistoryService();
@@ -3,8 +3,18 @@
  * Performs efficient similarity searches using PostgreSQL + pgvector
  */
 
+import { Prisma } from "@prisma/client";
 import { db } from "@/server/db";
-import { embeddingService } from "./embedding";
+import { EMBEDDING_VERSION, embeddingService } from "./embedding";
+import { parseSqlVector, toSqlVector } from "./pgvector";
+import { playlistClusteringService } from "./playlistClustering";
+import { type ComparedAnalysis } from "./playlistComparison";
+
+// Minimum number of ranked songs cached per playlist
+const SIMILARITY_CACHE_SIZE = 200;
+// ivfflat lists scanned per query; with the default of 1, filtered queries can return fewer
+// rows than their LIMIT. About sqrt(lists) of the indexes (see scripts/reindex-vectors.ts)
+const IVFFLAT_PROBES = 10;
 
 export interface SimilaritySearchOptions {
   limit?: number;
@@ -15,6 +25,59 @@ export interface SimilaritySearchOptions {
   popularityMax?: number; // Maximum popularity (0-100)
   yearMin?: number; // Minimum release year
   yearMax?: number; // Maximum release year
+  exact?: boolean; // Scan without the ivfflat index, so every matching song is ranked
+}
+
+// Rocchio weights: original query (playlist or seed song vector), liked centroid, passed centroid
+const ROCCHIO_WEIGHTS = { query: 1, liked: 0.75, passed: 0.25 };
+
+export interface PlaylistPageOptions {
+  limit?: number;
+  excludeIds?: string[]; // Spotify IDs to skip, e.g. playlist tracks and swiped songs
+  cursor?: number; // Songs served so far this session; pages always start from the top of the ranking
+}
+
+export interface PlaylistPage {
+  songs: SimilarSong[];
+  nextCursor: number | null; // Null once the catalog is exhausted
+}
+
+// What a deck was built from: a playlist's vector, the equally weighted midpoint of several
+// playlists' vectors (a blend), or the centroid of seed tracks' vectors
+export type RankingSeed = { playlistId: string } | { playlistIds: string[] } | { trackIds: string[] };
+
+export interface RelevanceFeedback {
+  likedIds: string[]; // Spotify IDs the listener liked
+  passedIds: string[]; // Spotify IDs the listener passed on
+  candidateIds: string[]; // Unseen Spotify IDs to reorder
+}
+
+export interface BlendPageOptions extends PlaylistPageOptions {
+  weights?: number[]; // Per playlist, in the order of the playlist IDs; equal by default
+}
+
+// A playlist's cached ranking; `complete` when it holds every song in the catalog
+export interface CachedRanking {
+  songs: SimilarSong[];
+  complete: boolean;
+}
+
+export interface PlaylistSimilarity {
+  sourcePlaylistId: string;
+  targetPlaylistId: string;
+  similarity: number; // Cosine similarity of the playlist vectors
+}
+
+export interface SimilarPlaylist extends ComparedAnalysis {
+  spotifyPlaylistId: string;
+  description: string | null;
+  trackCount: number;
+  similarity: number; // Cosine similarity to the source playlist's vector
+}
+
+export interface RankedCandidate {
+  spotifyId: string;
+  similarity: number | null; // Null for candidates without a stored vector
 }
 
 export interface SimilarSong {
@@ -37,6 +100,7 @@ export class VectorSearchService {
   
   /**
    * Find similar songs using combined vector similarity
+   * Ranks by pgvector cosine distance so the ivfflat index on combinedVector is used
    */
   async findSimilarSongs(
     queryVector: number[],
@@ -51,100 +115,200 @@ export class VectorSearchService {
       popularityMax,
       yearMin,
       yearMax,
+      exact = false,
     } = options;
 
-    // For now, use basic filtering since vector search is complex to set up
-    // This is a fallback until we get pgvector properly configured
-    
-    let whereClause: any = {
-      combinedVector: { not: null },
-    };
+    const vector = toSqlVector(queryVector);
+    const conditions: Prisma.Sql[] = [Prisma.sql`"combinedVector" IS NOT NULL`];
 
     if (excludeIds.length > 0) {
-      whereClause.spotifyId = { notIn: excludeIds };
+      conditions.push(Prisma.sql`"spotifyId" NOT IN (${Prisma.join(excludeIds)})`);
     }
 
     if (genreFilter && genreFilter.length > 0) {
-      whereClause.genres = { hasSome: genreFilter };
+      conditions.push(Prisma.sql`"genres" && ${genreFilter}::text[]`);
     }
 
     if (popularityMin !== undefined) {
-      whereClause.popularity = { ...whereClause.popularity, gte: popularityMin };
+      conditions.push(Prisma.sql`"popularity" >= ${popularityMin}`);
     }
 
     if (popularityMax !== undefined) {
-      whereClause.popularity = { ...whereClause.popularity, lte: popularityMax };
+      conditions.push(Prisma.sql`"popularity" <= ${popularityMax}`);
     }
 
-    if (yearMin !== undefined || yearMax !== undefined) {
-      whereClause.releaseDate = {};
-      if (yearMin) {
-        whereClause.releaseDate.gte = new Date(`${yearMin}-01-01`);
-      }
-      if (yearMax) {
-        whereClause.releaseDate.lte = new Date(`${yearMax}-12-31`);
-      }
+    if (yearMin !== undefined) {
+      conditions.push(Prisma.sql`"releaseDate" >= ${new Date(`${yearMin}-01-01`)}`);
     }
 
-    const songs = await db.song.findMany({
-      where: whereClause,
-      take: Math.min(limit * 2, 200), // Get more candidates for similarity calculation
-    });
+    if (yearMax !== undefined) {
+      conditions.push(Prisma.sql`"releaseDate" <= ${new Date(`${yearMax}-12-31`)}`);
+    }
 
-    // Calculate similarity using embeddings service
-    const songsWithSimilarity = songs
-      .map(song => {
-        const songVector = Array.isArray(song.combinedVector) 
-          ? song.combinedVector as number[]
-          : JSON.parse(song.combinedVector as string) as number[];
-        
-        const similarity = embeddingService.calculateCosineSimilarity(queryVector, songVector);
-        
-        return {
-          id: song.id,
-          spotifyId: song.spotifyId,
-          name: song.name,
-          artist: song.artist,
-          album: song.album,
-          imageUrl: song.imageUrl,
-          previewUrl: song.previewUrl,
-          externalUrls: song.externalUrls,
-          popularity: song.popularity,
-          genres: song.genres,
-          similarity,
-          durationMs: song.durationMs,
-          releaseDate: song.releaseDate,
-        };
-      })
-      .filter(song => song.similarity >= threshold)
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit);
-
-    return songsWithSimilarity;
+    const songs = await this.queryNearest<SimilarSong>(Prisma.sql`
+      SELECT
+        "id", "spotifyId", "name", "artist", "album", "imageUrl", "previewUrl", "externalUrls",
+        "popularity", "genres", "durationMs", "releaseDate",
+        1 - ("combinedVector" <=> ${vector}::vector) AS "similarity"
+      FROM "Song"
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY "combinedVector" <=> ${vector}::vector
+      LIMIT ${limit}
+    `, exact);
+
+    // Rows come back ordered by distance, so the threshold only trims the tail
+    return songs.filter(song => song.similarity >= threshold);
   }
 
   /**
    * Find songs similar to a playlist using playlist vector
+   * Unfiltered searches are served from and written through to the similarity cache
    */
   async findSongsForPlaylist(
     playlistId: string,
     options: SimilaritySearchOptions = {}
   ): Promise<SimilarSong[]> {
-    // Get playlist analysis
-    const playlist = await db.playlistAnalysis.findUnique({
-      where: { spotifyPlaylistId: playlistId },
-    });
+    const {
+      limit = 50,
+      threshold = 0.0,
+      excludeIds = [],
+      genreFilter,
+      popularityMin,
+      popularityMax,
+      yearMin,
+      yearMax,
+    } = options;
 
-    if (!playlist?.playlistVector) {
-      throw new Error('Playlist analysis not found or vector not computed');
+    const cacheable = !genreFilter?.length &&
+      popularityMin === undefined && popularityMax === undefined &&
+      yearMin === undefined && yearMax === undefined;
+
+    // Cache deep enough that excluded songs don't eat into the requested limit
+    const cacheSize = Math.max(SIMILARITY_CACHE_SIZE, limit + excludeIds.length);
+
+    const selectFromRanked = (ranked: SimilarSong[]) => {
+      const excluded = new Set(excludeIds);
+      return ranked
+        .filter(song => !excluded.has(song.spotifyId) && song.similarity >= threshold)
+        .slice(0, limit);
+    };
+
+    if (cacheable) {
+      const cached = await this.getCachedSimilarities(playlistId, cacheSize);
+      // Unless the whole catalog was cached, the cut-off tail may hold songs we'd need to fill the limit
+      if (cached && (cached.complete || selectFromRanked(cached.songs).length === limit)) {
+        return selectFromRanked(cached.songs);
+      }
+    }
+
+    if (!cacheable) {
+      return this.rankForPlaylist(playlistId, options);
+    }
+
+    const { ranked } = await this.rankToDepth(
+      cacheSize,
+      exact => this.rankForPlaylist(playlistId, { limit: cacheSize, exact })
+    );
+    await this.cacheSimilarityScores(playlistId, ranked);
+
+    return selectFromRanked(ranked);
+  }
+
+  /**
+   * Page through a playlist's full similarity ranking
+   * Each page is the best songs not yet excluded (swiped or in the playlist), so a ranking
+   * recomputed between pages can't skip unseen songs or repeat judged ones
+   */
+  async findSongsForPlaylistPage(
+    playlistId: string,
+    options: PlaylistPageOptions = {}
+  ): Promise<PlaylistPage> {
+    const { limit = 50, excludeIds = [], cursor = 0 } = options;
+    const depth = Math.max(SIMILARITY_CACHE_SIZE, limit + excludeIds.length);
+    const selectPage = (ranked: SimilarSong[], complete: boolean) =>
+      this.selectPage(ranked, complete, { limit, excludeIds, cursor });
+
+    const cached = await this.getCachedSimilarities(playlistId, depth);
+    if (cached) {
+      const page = selectPage(cached.songs, cached.complete);
+      if (cached.complete || page.songs.length === limit) {
+        return page;
+      }
     }
 
-    // Convert JSON to number array
-    const vector = Array.isArray(playlist.playlistVector) 
-      ? playlist.playlistVector as number[]
-      : JSON.parse(playlist.playlistVector as string) as number[];
+    const { ranked, complete } = await this.rankToDepth(
+      depth,
+      exact => this.rankForPlaylist(playlistId, { limit: depth, exact })
+    );
+    await this.cacheSimilarityScores(playlistId, ranked);
 
-    return this.findSimilarSongs(vector, options);
+    return selectPage(ranked, complete);
+  }
+
+  /**
+   * Page through songs ranked against the weighted midpoint of several playlists' vectors,
+   * so a blended deck sits between the playlists rather than near any one of them
+   * Cursors work as in findSongsForPlaylistPage
+   */
+  async findSongsForBlend(
+    playlistIds: string[],
+    options: BlendPageOptions = {}
+  ): Promise<PlaylistPage> {
+    const { limit = 50, excludeIds = [], cursor = 0, weights = playlistIds.map(() => 1) } = options;
+
+    const midpoint = await this.getBlendVector(playlistIds, weights);
+    if (!midpoint) {
+      return { songs: [], nextCursor: null };
+    }
+
+    const depth = limit + excludeIds.length;
+    const { ranked, complete } = await this.rankToDepth(
+      depth,
+      exact => this.findSimilarSongs(midpoint, { limit: depth, exact })
+    );
+
+    return this.selectPage(ranked, complete, { limit, excludeIds, cursor });
+  }
+
+  /**
+   * Cosine similarity between every pair of the given playlists' vectors
+   */
+  async getPairwisePlaylistSimilarities(playlistIds: string[]): Promise<PlaylistSimilarity[]> {
+    const rows = await db.$queryRaw<PlaylistSimilarity[]>`
+      SELECT
+        a."spotifyPlaylistId" AS "sourcePlaylistId",
+        b."spotifyPlaylistId" AS "targetPlaylistId",
+        1 - (a."playlistVector" <=> b."playlistVector") AS "similarity"
+      FROM "PlaylistAnalysis" a
+      JOIN "PlaylistAnalysis" b ON a."spotifyPlaylistId" < b."spotifyPlaylistId"
+      WHERE a."spotifyPlaylistId" = ANY(${playlistIds})
+        AND b."spotifyPlaylistId" = ANY(${playlistIds})
+        AND a."playlistVector" IS NOT NULL
+        AND b."playlistVector" IS NOT NULL
+    `;
+
+    return rows.map(row => ({ ...row, similarity: Number(row.similarity) }));
+  }
+
+  /**
+   * Other analyzed playlists nearest to a playlist, ranked through the ivfflat index on playlistVector
+   */
+  async findSimilarPlaylists(playlistId: string, limit = 10): Promise<SimilarPlaylist[]> {
+    const vector = toSqlVector(await this.getPlaylistVector(playlistId));
+
+    const rows = await this.queryNearest<SimilarPlaylist>(Prisma.sql`
+      SELECT
+        "spotifyPlaylistId", "name", "description", "trackCount", "dominantGenres",
+        "avgEnergy", "avgDanceability", "avgValence", "avgAcousticness", "avgInstrumentalness",
+        "avgSpeechiness", "avgTempo", "avgPopularity",
+        1 - ("playlistVector" <=> ${vector}::vector) AS "similarity"
+      FROM "PlaylistAnalysis"
+      WHERE "playlistVector" IS NOT NULL AND "spotifyPlaylistId" <> ${playlistId}
+      ORDER BY "playlistVector" <=> ${vector}::vector
+      LIMIT ${limit}
+    `);
+
+    return rows.map(row => ({ ...row, similarity: Number(row.similarity) }));
   }
 
   /**
@@ -154,26 +318,107 @@ export class VectorSearchService {
     songId: string,
     options: SimilaritySearchOptions = {}
   ): Promise<SimilarSong[]> {
-    const song = await db.song.findUnique({
-      where: { spotifyId: songId },
-      select: { combinedVector: true },
-    });
-
-    if (!song?.combinedVector) {
+    const vector = await this.getSongVector(songId);
+    if (!vector) {
       throw new Error('Song not found or vector not computed');
     }
 
-    // Convert JSON to number array
-    const vector = Array.isArray(song.combinedVector) 
-      ? song.combinedVector as number[]
-      : JSON.parse(song.combinedVector as string) as number[];
-
     // Exclude the source song itself
     const excludeIds = [songId, ...(options.excludeIds ?? [])];
 
     return this.findSimilarSongs(vector, { ...options, excludeIds });
   }
 
+  /**
+   * Page through songs ranked by similarity to one or more seed songs (the centroid of their
+   * vectors, e.g. an album's tracks); the seeds themselves are never served
+   * Cursors work as in findSongsForPlaylistPage
+   */
+  async findSongsLikeSongsPage(
+    songIds: string[],
+    options: PlaylistPageOptions = {}
+  ): Promise<PlaylistPage> {
+    const { limit = 50, cursor = 0 } = options;
+    const excludeIds = [...songIds, ...(options.excludeIds ?? [])];
+
+    const vectors = await this.getSongVectors(songIds);
+    if (vectors.length === 0) {
+      throw new Error('Songs not found or vectors not computed');
+    }
+
+    const vector = embeddingService.createPlaylistVector(vectors);
+    const depth = limit + excludeIds.length;
+    const { ranked, complete } = await this.rankToDepth(
+      depth,
+      exact => this.findSimilarSongs(vector, { limit: depth, exact })
+    );
+
+    return this.selectPage(ranked, complete, { limit, excludeIds, cursor });
+  }
+
+  /**
+   * Rocchio relevance feedback: shift the seed's vector toward liked songs and away from
+   * passed ones, then order the candidates by similarity to the shifted query
+   * Candidates without a stored vector keep their relative order after the ranked ones
+   */
+  async rerankWithFeedback(
+    seed: RankingSeed,
+    feedback: RelevanceFeedback
+  ): Promise<RankedCandidate[]> {
+    const { likedIds, passedIds, candidateIds } = feedback;
+    const unranked = candidateIds.map(spotifyId => ({ spotifyId, similarity: null }));
+
+    if (candidateIds.length === 0) return [];
+
+    let seedVector: number[] | null;
+    if ('trackIds' in seed) {
+      const seedVectors = await this.getSongVectors(seed.trackIds);
+      seedVector = seedVectors.length > 0 ? embeddingService.createPlaylistVector(seedVectors) : null;
+    } else if ('playlistIds' in seed) {
+      seedVector = await this.getBlendVector(seed.playlistIds, seed.playlistIds.map(() => 1));
+    } else {
+      const rows = await db.$queryRaw<Array<{ vector: string | null }>>`
+        SELECT "playlistVector"::text AS "vector"
+        FROM "PlaylistAnalysis"
+        WHERE "spotifyPlaylistId" = ${seed.playlistId}
+      `;
+      seedVector = rows[0]?.vector ? parseSqlVector(rows[0].vector) : null;
+    }
+
+    const [likedVectors, passedVectors] = await Promise.all([
+      this.getSongVectors(likedIds),
+      this.getSongVectors(passedIds),
+    ]);
+
+    const terms: Array<[number[], number]> = [];
+    if (seedVector) terms.push([seedVector, ROCCHIO_WEIGHTS.query]);
+    if (likedVectors.length > 0) terms.push([embeddingService.createPlaylistVector(likedVectors), ROCCHIO_WEIGHTS.liked]);
+    if (passedVectors.length > 0) terms.push([embeddingService.createPlaylistVector(passedVectors), -ROCCHIO_WEIGHTS.passed]);
+
+    // Nothing to steer by: keep the current order
+    if (terms.length === 0) return unranked;
+
+    const query = terms[0]![0].map((_, i) =>
+      terms.reduce((sum, [vector, weight]) => sum + weight * (vector[i] ?? 0), 0)
+    );
+
+    if (query.every(value => value === 0)) return unranked;
+
+    const scored = await db.$queryRaw<Array<{ spotifyId: string; similarity: number }>>`
+      SELECT "spotifyId", 1 - ("combinedVector" <=> ${toSqlVector(query)}::vector) AS "similarity"
+      FROM "Song"
+      WHERE "spotifyId" = ANY(${candidateIds}) AND "combinedVector" IS NOT NULL
+      ORDER BY "similarity" DESC
+    `;
+
+    const ranked = new Set(scored.map(row => row.spotifyId));
+
+    return [
+      ...scored.map(row => ({ spotifyId: row.spotifyId, similarity: Number(row.similarity) })),
+      ...unranked.filter(candidate => !ranked.has(candidate.spotifyId)),
+    ];
+  }
+
   /**
    * Hybrid search: Combine vector similarity with popularity and genre matching
    */
@@ -293,27 +538,314 @@ export class VectorSearchService {
     return selected;
   }
 
+  /**
+   * The top `limit` non-excluded songs of a ranking; `cursor` only counts songs served so far
+   * `complete` means the ranking holds every candidate, so running off its end ends paging
+   */
+  private selectPage(
+    ranked: SimilarSong[],
+    complete: boolean,
+    { limit = 50, excludeIds = [], cursor = 0 }: PlaylistPageOptions
+  ): PlaylistPage {
+    const excluded = new Set(excludeIds);
+    const songs: SimilarSong[] = [];
+    let position = 0;
+
+    for (; position < ranked.length && songs.length < limit; position++) {
+      const song = ranked[position]!;
+      if (!excluded.has(song.spotifyId)) songs.push(song);
+    }
+
+    return { songs, nextCursor: complete && position >= ranked.length ? null : cursor + songs.length };
+  }
+
+  /**
+   * Rank the top `depth` songs, and whether that ranking covers the whole catalog
+   * The ivfflat index can come back short of the LIMIT, so a short ranking is redone as an
+   * exact scan unless it already holds every song with a vector
+   */
+  private async rankToDepth(
+    depth: number,
+    rank: (exact: boolean) => Promise<SimilarSong[]>
+  ): Promise<{ ranked: SimilarSong[]; complete: boolean }> {
+    const ranked = await rank(false);
+    if (ranked.length >= depth) {
+      return { ranked, complete: false };
+    }
+
+    const catalogSize = await this.countSearchableSongs();
+    if (ranked.length >= catalogSize) {
+      return { ranked, complete: true };
+    }
+
+    const exact = await rank(true);
+    return { ranked: exact, complete: exact.length < depth };
+  }
+
+  /**
+   * Number of songs with a combined vector, i.e. every song a ranking can hold
+   */
+  private async countSearchableSongs(): Promise<number> {
+    const [row] = await db.$queryRaw<Array<{ count: bigint }>>`
+      SELECT COUNT(*) AS "count" FROM "Song" WHERE "combinedVector" IS NOT NULL
+    `;
+
+    return Number(row?.count ?? 0);
+  }
+
+  /**
+   * Rank songs for a playlist: by its single vector, or for a mixed playlist by interleaving
+   * each cluster centroid's nearest songs in proportion to the cluster's share, so every
+   * style in the playlist is represented instead of songs near the average of the styles
+   */
+  private async rankForPlaylist(
+    playlistId: string,
+    options: SimilaritySearchOptions = {}
+  ): Promise<SimilarSong[]> {
+    const clusters = await playlistClusteringService.getClusters(playlistId);
+
+    if (clusters.length < 2) {
+      return this.findSimilarSongs(await this.getPlaylistVector(playlistId), options);
+    }
+
+    const { limit = 50 } = options;
+    const rankings = await Promise.all(
+      clusters.map(cluster => this.findSimilarSongs(cluster.centroid, { ...options, limit }))
+    );
+
+    // Smooth weighted round robin: each turn goes to the cluster furthest behind its share
+    const positions = clusters.map(() => 0);
+    const credits = clusters.map(() => 0);
+    const seen = new Set<string>();
+    const ranked: SimilarSong[] = [];
+
+    while (ranked.length < limit) {
+      const active = clusters
+        .map((_, index) => index)
+        .filter(index => positions[index]! < rankings[index]!.length);
+      if (active.length === 0) break;
+
+      for (const index of active) credits[index]! += clusters[index]!.share;
+      const next = active.reduce((best, index) => credits[index]! > credits[best]! ? index : best);
+      credits[next]! -= active.reduce((sum, index) => sum + clusters[index]!.share, 0);
+
+      const song = rankings[next]![positions[next]!++]!;
+      if (!seen.has(song.spotifyId)) {
+        seen.add(song.spotifyId);
+        ranked.push(song);
+      }
+    }
+
+    return ranked;
+  }
+
+  /**
+   * Run a nearest-neighbour query with IVFFLAT_PROBES set for its transaction only
+   * `exact` turns index scans off instead, trading speed for a complete ranking
+   */
+  private async queryNearest<T>(query: Prisma.Sql, exact = false): Promise<T[]> {
+    const [, rows] = await db.$transaction([
+      db.$executeRawUnsafe(exact ? 'SET LOCAL enable_indexscan = off' : `SET LOCAL ivfflat.probes = ${IVFFLAT_PROBES}`),
+      db.$queryRaw<T[]>(query),
+    ]);
+
+    return rows;
+  }
+
+  private async getPlaylistVector(playlistId: string): Promise<number[]> {
+    const rows = await db.$queryRaw<Array<{ vector: string | null }>>`
+      SELECT "playlistVector"::text AS "vector"
+      FROM "PlaylistAnalysis"
+      WHERE "spotifyPlaylistId" = ${playlistId}
+    `;
+
+    const vector = rows[0]?.vector;
+    if (!vector) {
+      throw new Error('Playlist analysis not found or vector not computed');
+    }
+
+    return parseSqlVector(vector);
+  }
+
+  /**
+   * Weighted midpoint of the playlists' vectors; null when they cancel out
+   */
+  private async getBlendVector(playlistIds: string[], weights: number[]): Promise<number[] | null> {
+    const vectors = await Promise.all(playlistIds.map(id => this.getPlaylistVector(id)));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+    // Playlist vectors are unit length, so no playlist outweighs another by magnitude
+    const midpoint = vectors[0]!.map((_, i) =>
+      vectors.reduce((sum, vector, index) => sum + (weights[index] ?? 0) * (vector[i] ?? 0), 0) / totalWeight
+    );
+
+    return midpoint.every(value => value === 0) ? null : midpoint;
+  }
+
+  private async getSongVector(spotifyId: string): Promise<number[] | null> {
+    const rows = await db.$queryRaw<Array<{ vector: string | null }>>`
+      SELECT "combinedVector"::text AS "vector"
+      FROM "Song"
+      WHERE "spotifyId" = ${spotifyId}
+    `;
+
+    const vector = rows[0]?.vector;
+    return vector ? parseSqlVector(vector) : null;
+  }
+
+  private async getSongVectors(spotifyIds: string[]): Promise<number[][]> {
+    if (spotifyIds.length === 0) return [];
+
+    const rows = await db.$queryRaw<Array<{ vector: string }>>`
+      SELECT "combinedVector"::text AS "vector"
+      FROM "Song"
+      WHERE "spotifyId" = ANY(${spotifyIds}) AND "combinedVector" IS NOT NULL
+    `;
+
+    return rows.map(row => parseSqlVector(row.vector));
+  }
+
   /**
    * Cache similarity results for faster subsequent searches
+   * Replaces any previous results for the playlist; rows keep the order they were ranked in,
+   * and record the catalog size so a read can tell whether the ranking held every song
    */
   async cacheSimilarityScores(
     sourcePlaylistId: string,
     results: SimilarSong[]
   ): Promise<void> {
-    // Simplified caching - just log for now
-    console.log(`Would cache ${results.length} results for playlist ${sourcePlaylistId}`);
+    const [catalogSize, genreEmbeddingVersion] = await Promise.all([
+      this.countSearchableSongs(),
+      embeddingService.getLatestGenreEmbeddingVersion(),
+    ]);
+
+    await db.$transaction([
+      db.similarityCache.deleteMany({ where: { sourcePlaylistId } }),
+      db.similarityCache.createMany({
+        data: results.map((song, rank) => ({
+          sourcePlaylistId,
+          targetSongId: song.id,
+          similarityScore: song.similarity,
+          rank,
+          embeddingVersion: EMBEDDING_VERSION,
+          genreEmbeddingVersion,
+          catalogSize,
+        })),
+        skipDuplicates: true,
+      }),
+    ]);
   }
 
   /**
    * Get cached similarity results if available
+   * Returns null (and drops the stale rows) when the playlist analysis was updated
+   * after the results were cached, they were computed with another embedding or genre
+   * embedding version, or songs added since would change the ranking (see isOutranked)
    */
   async getCachedSimilarities(
     sourcePlaylistId: string,
     limit = 50
-  ): Promise<SimilarSong[] | null> {
-    // No caching for now
-    return null;
+  ): Promise<CachedRanking | null> {
+    const playlist = await db.playlistAnalysis.findUnique({
+      where: { spotifyPlaylistId: sourcePlaylistId },
+      select: { updatedAt: true },
+    });
+
+    if (!playlist) {
+      return null;
+    }
+
+    const entries = await db.similarityCache.findMany({
+      where: { sourcePlaylistId },
+      // Interleaved cluster rankings aren't sorted by score, so the stored rank decides
+      orderBy: [{ rank: 'asc' }, { similarityScore: 'desc' }],
+      take: limit,
+    });
+
+    if (entries.length === 0) {
+      return null;
+    }
+
+    const [stats, genreEmbeddingVersion] = await Promise.all([
+      db.similarityCache.aggregate({
+        where: { sourcePlaylistId },
+        _count: true,
+        _min: { similarityScore: true, createdAt: true },
+      }),
+      embeddingService.getLatestGenreEmbeddingVersion(),
+    ]);
+    // The ranking held every song when it was cached if it is as long as the catalog was
+    const complete = stats._count >= entries[0]!.catalogSize;
+
+    const isStale = entries.some(entry =>
+      entry.embeddingVersion !== EMBEDDING_VERSION ||
+      entry.genreEmbeddingVersion !== genreEmbeddingVersion ||
+      entry.createdAt < playlist.updatedAt
+    ) || await this.isOutranked(
+      sourcePlaylistId,
+      stats._min.createdAt!,
+      complete ? null : stats._min.similarityScore!
+    );
+
+    if (isStale) {
+      await db.similarityCache.deleteMany({ where: { sourcePlaylistId } });
+      return null;
+    }
+
+    const songs = await db.song.findMany({
+      where: { id: { in: entries.map(entry => entry.targetSongId) } },
+      select: {
+        id: true,
+        spotifyId: true,
+        name: true,
+        artist: true,
+        album: true,
+        imageUrl: true,
+        previewUrl: true,
+        externalUrls: true,
+        popularity: true,
+        genres: true,
+        durationMs: true,
+        releaseDate: true,
+      },
+    });
+    const songsById = new Map(songs.map(song => [song.id, song]));
+
+    // Songs deleted since caching are simply skipped
+    const cachedSongs = entries.flatMap(entry => {
+      const song = songsById.get(entry.targetSongId);
+      return song ? [{ ...song, similarity: entry.similarityScore }] : [];
+    });
+
+    return { songs: cachedSongs, complete };
+  }
+
+  /**
+   * Whether songs added since `since` belong in a cached ranking: any new song for a
+   * ranking that held the whole catalog, otherwise one scoring above the ranking's tail
+   * Mixed playlists check each cluster centroid, against the lowest score cached for any of them
+   */
+  private async isOutranked(playlistId: string, since: Date, tailScore: number | null): Promise<boolean> {
+    const findNewSong = (condition: Prisma.Sql) => db.$queryRaw<Array<{ id: string }>>`
+      SELECT "id" FROM "Song"
+      WHERE "createdAt" > ${since} AND "combinedVector" IS NOT NULL AND ${condition}
+      LIMIT 1
+    `;
+
+    if (tailScore === null) {
+      return (await findNewSong(Prisma.sql`TRUE`)).length > 0;
+    }
+
+    const clusters = await playlistClusteringService.getClusters(playlistId);
+    const vectors = clusters.length < 2
+      ? [await this.getPlaylistVector(playlistId)]
+      : clusters.map(cluster => cluster.centroid);
+
+    const matches = await Promise.all(vectors.map(vector =>
+      findNewSong(Prisma.sql`1 - ("combinedVector" <=> ${toSqlVector(vector)}::vector) > ${tailScore}`)
+    ));
+
+    return matches.some(rows => rows.length > 0);
   }
 }
 
-export const vectorSearchService = new VectorSearchService();
\ No newline at end of file
+export const vectorSearchService = new VectorSearchService();